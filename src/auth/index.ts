@@ -0,0 +1,4 @@
+export * from './nonces.js';
+export * from './oauth.js';
+export * from './refresh.js';
+export * from './store.js';
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { ConfirmationNonces, markConfirmationNonceUsedOnce } from './nonces.js';
+
+/**
+ * Durable Object namespace backed by in-memory objects, one per name
+ */
+function createNamespace() {
+  const objects = new Map<string, { nonces: ConfirmationNonces; storage: Map<string, unknown> }>();
+  const get = (name: string) => {
+    let entry = objects.get(name);
+    if (!entry) {
+      const storage = new Map<string, unknown>();
+      const state = {
+        storage: {
+          get: async (key: string) => storage.get(key),
+          put: async (key: string, value: unknown) => {
+            storage.set(key, value);
+          },
+          setAlarm: async () => {},
+          deleteAll: async () => {
+            storage.clear();
+          },
+        },
+      };
+      entry = { nonces: new ConfirmationNonces(state as unknown as DurableObjectState), storage };
+      objects.set(name, entry);
+    }
+    return entry;
+  };
+  const namespace = {
+    idFromName: (name: string) => name,
+    get: (name: string) => ({
+      fetch: (input: string, init: RequestInit) => get(name).nonces.fetch(new Request(input, init)),
+    }),
+  };
+  return { namespace: namespace as unknown as DurableObjectNamespace, get };
+}
+
+describe('markConfirmationNonceUsedOnce', () => {
+  it('accepts each nonce once', async () => {
+    const { namespace } = createNamespace();
+    const expiresAt = Date.now() + 60_000;
+
+    expect(await markConfirmationNonceUsedOnce(namespace, 'n1', expiresAt)).toBe(true);
+    expect(await markConfirmationNonceUsedOnce(namespace, 'n1', expiresAt)).toBe(false);
+    expect(await markConfirmationNonceUsedOnce(namespace, 'n2', expiresAt)).toBe(true);
+  });
+
+  it('forgets the nonce when the alarm fires', async () => {
+    const { namespace, get } = createNamespace();
+    await markConfirmationNonceUsedOnce(namespace, 'n1', Date.now());
+
+    await get('n1').nonces.alarm();
+
+    expect(get('n1').storage.size).toBe(0);
+  });
+});
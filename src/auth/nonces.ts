@@ -0,0 +1,54 @@
+/**
+ * Confirmation Nonce Registry
+ *
+ * Durable Object that records redeemed confirmation token nonces. Every nonce
+ * gets its own object, and an object finishes each storage read and write
+ * before it handles the next request, so checking and recording a nonce is
+ * atomic across isolates. OAUTH_KV, the fallback, is eventually consistent and
+ * cannot give that guarantee.
+ */
+
+const USED_AT_KEY = 'usedAt';
+
+/**
+ * Durable Object recording whether one confirmation nonce was redeemed
+ */
+export class ConfirmationNonces implements DurableObject {
+  constructor(private readonly state: DurableObjectState) {}
+
+  /**
+   * Record the nonce. Responds with `firstUse: false` when it was already recorded.
+   */
+  async fetch(request: Request): Promise<Response> {
+    const { expiresAt } = (await request.json()) as { expiresAt: number };
+    if (await this.state.storage.get<number>(USED_AT_KEY)) {
+      return Response.json({ firstUse: false });
+    }
+    await this.state.storage.put(USED_AT_KEY, Date.now());
+    // Forget the nonce once the token has expired and would be rejected anyway
+    await this.state.storage.setAlarm(Math.max(expiresAt, Date.now()));
+    return Response.json({ firstUse: true });
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+/**
+ * Record a redeemed confirmation token nonce in its Durable Object.
+ * Resolves false when the nonce was already recorded.
+ */
+export async function markConfirmationNonceUsedOnce(
+  namespace: DurableObjectNamespace,
+  nonce: string,
+  expiresAt: number
+): Promise<boolean> {
+  const stub = namespace.get(namespace.idFromName(nonce));
+  const response = await stub.fetch('https://confirmation-nonces/mark', {
+    method: 'POST',
+    body: JSON.stringify({ expiresAt }),
+  });
+  const { firstUse } = (await response.json()) as { firstUse: boolean };
+  return firstUse;
+}
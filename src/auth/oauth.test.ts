@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryKv } from '../test/memory-kv.js';
+import type { Env } from '../types/env.js';
+import { computeCodeChallenge, handleOAuthRequest } from './oauth.js';
+import { createAuthorizationCode } from './store.js';
+
+function createEnv(): Env {
+  return {
+    OAUTH_KV: createMemoryKv(),
+    GUSTO_CLIENT_ID: 'client',
+    GUSTO_CLIENT_SECRET: 'secret',
+  } as unknown as Env;
+}
+
+const REDIRECT_URI = 'https://client.example.com/callback';
+const CODE_VERIFIER = 'verifier-0123456789-abcdefghijklmnopqrstuvwxyz';
+
+async function issueCode(env: Env): Promise<string> {
+  return createAuthorizationCode(env.OAUTH_KV as KVNamespace, {
+    serverKey: 'gmcp_key',
+    redirectUri: REDIRECT_URI,
+    codeChallenge: await computeCodeChallenge(CODE_VERIFIER),
+  });
+}
+
+function tokenRequest(params: Record<string, string>): Request {
+  return new Request('https://mcp.example.com/oauth/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ grant_type: 'authorization_code', ...params }),
+  });
+}
+
+describe('/oauth/authorize', () => {
+  it('requires PKCE when a redirect_uri is given', async () => {
+    const url = new URL('https://mcp.example.com/oauth/authorize');
+    url.searchParams.set('redirect_uri', REDIRECT_URI);
+
+    const response = await handleOAuthRequest(new Request(url), createEnv());
+
+    expect(response.status).toBe(400);
+  });
+
+  it('redirects to Gusto with a PKCE challenge', async () => {
+    const url = new URL('https://mcp.example.com/oauth/authorize');
+    url.searchParams.set('redirect_uri', REDIRECT_URI);
+    url.searchParams.set('code_challenge', await computeCodeChallenge(CODE_VERIFIER));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    const response = await handleOAuthRequest(new Request(url), createEnv());
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Location')).toMatch(/^https:\/\/api\.gusto\.com\/oauth\//);
+  });
+});
+
+describe('/oauth/token', () => {
+  it('exchanges a code with the matching redirect_uri and verifier', async () => {
+    const env = createEnv();
+    const code = await issueCode(env);
+
+    const response = await handleOAuthRequest(
+      tokenRequest({ code, redirect_uri: REDIRECT_URI, code_verifier: CODE_VERIFIER }),
+      env
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ access_token: 'gmcp_key' });
+  });
+
+  it('rejects a different redirect_uri', async () => {
+    const env = createEnv();
+    const code = await issueCode(env);
+
+    const response = await handleOAuthRequest(
+      tokenRequest({
+        code,
+        redirect_uri: 'https://attacker.example.com/callback',
+        code_verifier: CODE_VERIFIER,
+      }),
+      env
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects a wrong code_verifier and burns the code', async () => {
+    const env = createEnv();
+    const code = await issueCode(env);
+
+    const wrong = await handleOAuthRequest(
+      tokenRequest({ code, redirect_uri: REDIRECT_URI, code_verifier: 'wrong' }),
+      env
+    );
+    const retry = await handleOAuthRequest(
+      tokenRequest({ code, redirect_uri: REDIRECT_URI, code_verifier: CODE_VERIFIER }),
+      env
+    );
+
+    expect(wrong.status).toBe(400);
+    expect(retry.status).toBe(400);
+  });
+});
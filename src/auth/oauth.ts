@@ -0,0 +1,327 @@
+/**
+ * Gusto OAuth 2.0 Authorization-Code Flow
+ *
+ * Routes:
+ * - GET  /oauth/authorize - Redirects the user to Gusto's consent screen
+ * - GET  /oauth/callback  - Exchanges Gusto's code and stores the tokens in OAUTH_KV
+ * - POST /oauth/token     - Exchanges a server-issued code for an opaque server key
+ *
+ * MCP clients then authenticate with `Authorization: Bearer <server key>`
+ * instead of pasting a raw Gusto access token. Clients that pass a
+ * redirect_uri must use PKCE (S256); the issued code is bound to that
+ * redirect_uri and code challenge.
+ */
+
+import { type Env, parseTenantCredentials, type TenantCredentials } from '../types/env.js';
+import { AuthenticationError } from '../utils/errors.js';
+import {
+  base64UrlEncode,
+  consumeAuthorizationCode,
+  consumePendingAuthorization,
+  createAuthorizationCode,
+  createPendingAuthorization,
+  generateOpaqueToken,
+  getTenantTokens,
+  putTenantTokens,
+  type StoredTenantTokens,
+} from './store.js';
+
+const GUSTO_OAUTH_BASE_URL = 'https://api.gusto.com/oauth';
+
+/**
+ * Prefix for server-issued keys, used to tell them apart from Gusto tokens
+ */
+export const SERVER_KEY_PREFIX = 'gmcp_';
+
+/**
+ * OAuth routes handled by handleOAuthRequest
+ */
+export const OAUTH_PATHS = ['/oauth/authorize', '/oauth/callback', '/oauth/token'];
+
+// =============================================================================
+// Gusto Token Endpoint
+// =============================================================================
+
+/**
+ * Call Gusto's token endpoint and convert the response into stored tokens
+ */
+export async function requestGustoToken(
+  params: Record<string, string>
+): Promise<StoredTenantTokens> {
+  const response = await fetch(`${GUSTO_OAUTH_BASE_URL}/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(params),
+  });
+
+  if (!response.ok) {
+    let message = `Gusto token request failed: ${response.status}`;
+    try {
+      const errorJson = (await response.json()) as Record<string, unknown>;
+      message = (errorJson.error_description || errorJson.error || message) as string;
+    } catch {
+      // Use default message
+    }
+    throw new AuthenticationError(message);
+  }
+
+  const data = (await response.json()) as {
+    access_token: string;
+    refresh_token?: string;
+    expires_in?: number;
+    scope?: string;
+  };
+  const now = Date.now();
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token,
+    expiresAt: data.expires_in ? now + data.expires_in * 1000 : undefined,
+    scope: data.scope,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// =============================================================================
+// Credential Resolution
+// =============================================================================
+
+/**
+ * Extract a server-issued key from the Authorization header
+ */
+export function parseServerKey(request: Request): string | undefined {
+  const authorization = request.headers.get('Authorization');
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  if (match?.[1].startsWith(SERVER_KEY_PREFIX)) {
+    return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Resolve tenant credentials from headers, falling back to tokens stored in
+ * OAUTH_KV when the request carries a server-issued key.
+ */
+export async function resolveTenantCredentials(
+  request: Request,
+  env: Env
+): Promise<TenantCredentials> {
+  const credentials = parseTenantCredentials(request);
+  if (credentials.accessToken || !env.OAUTH_KV) {
+    return credentials;
+  }
+
+  const serverKey = parseServerKey(request);
+  if (!serverKey) {
+    return credentials;
+  }
+
+  const tokens = await getTenantTokens(env.OAUTH_KV, serverKey);
+  if (!tokens) {
+    return credentials;
+  }
+
+  return {
+    ...credentials,
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    serverKey,
+  };
+}
+
+// =============================================================================
+// Route Handlers
+// =============================================================================
+
+/**
+ * Handle the /oauth/* routes
+ */
+export async function handleOAuthRequest(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+
+  if (!env.OAUTH_KV || !env.GUSTO_CLIENT_ID || !env.GUSTO_CLIENT_SECRET) {
+    return jsonResponse(
+      {
+        error: 'not_configured',
+        message: 'OAuth requires the OAUTH_KV binding and GUSTO_CLIENT_ID / GUSTO_CLIENT_SECRET.',
+      },
+      501
+    );
+  }
+
+  try {
+    if (url.pathname === '/oauth/authorize' && request.method === 'GET') {
+      return await handleAuthorize(url, env.OAUTH_KV, env);
+    }
+    if (url.pathname === '/oauth/callback' && request.method === 'GET') {
+      return await handleCallback(url, env.OAUTH_KV, env);
+    }
+    if (url.pathname === '/oauth/token' && request.method === 'POST') {
+      return await handleToken(request, env.OAUTH_KV);
+    }
+  } catch (error) {
+    return jsonResponse(
+      {
+        error: 'server_error',
+        message: error instanceof Error ? error.message : 'OAuth request failed',
+      },
+      error instanceof AuthenticationError ? 401 : 500
+    );
+  }
+
+  return jsonResponse({ error: 'invalid_request', message: 'Unsupported OAuth route' }, 405);
+}
+
+async function handleAuthorize(url: URL, kv: KVNamespace, env: Env): Promise<Response> {
+  const clientRedirectUri = url.searchParams.get('redirect_uri') || undefined;
+  if (clientRedirectUri && !isAllowedRedirectUri(clientRedirectUri)) {
+    return jsonResponse(
+      { error: 'invalid_request', message: 'redirect_uri must use https or localhost' },
+      400
+    );
+  }
+
+  // Codes sent to a client redirect_uri can only be redeemed with the PKCE verifier
+  const codeChallenge = url.searchParams.get('code_challenge') || undefined;
+  if (clientRedirectUri && !codeChallenge) {
+    return jsonResponse(
+      { error: 'invalid_request', message: 'code_challenge is required with redirect_uri' },
+      400
+    );
+  }
+  if (codeChallenge && url.searchParams.get('code_challenge_method') !== 'S256') {
+    return jsonResponse(
+      { error: 'invalid_request', message: 'code_challenge_method must be S256' },
+      400
+    );
+  }
+
+  const state = await createPendingAuthorization(kv, {
+    clientRedirectUri,
+    clientState: url.searchParams.get('state') || undefined,
+    codeChallenge,
+  });
+
+  const authorizeUrl = new URL(`${GUSTO_OAUTH_BASE_URL}/authorize`);
+  authorizeUrl.searchParams.set('client_id', env.GUSTO_CLIENT_ID as string);
+  authorizeUrl.searchParams.set('redirect_uri', getCallbackUrl(url, env));
+  authorizeUrl.searchParams.set('response_type', 'code');
+  authorizeUrl.searchParams.set('state', state);
+  return Response.redirect(authorizeUrl.toString(), 302);
+}
+
+async function handleCallback(url: URL, kv: KVNamespace, env: Env): Promise<Response> {
+  const code = url.searchParams.get('code');
+  const state = url.searchParams.get('state');
+  if (!code || !state) {
+    return jsonResponse({ error: 'invalid_request', message: 'Missing code or state' }, 400);
+  }
+
+  const pending = await consumePendingAuthorization(kv, state);
+  if (!pending) {
+    return jsonResponse(
+      { error: 'invalid_request', message: 'Unknown or expired authorization state' },
+      400
+    );
+  }
+
+  const tokens = await requestGustoToken({
+    client_id: env.GUSTO_CLIENT_ID as string,
+    client_secret: env.GUSTO_CLIENT_SECRET as string,
+    code,
+    grant_type: 'authorization_code',
+    redirect_uri: getCallbackUrl(url, env),
+  });
+
+  const serverKey = generateOpaqueToken(SERVER_KEY_PREFIX);
+  await putTenantTokens(kv, serverKey, tokens);
+
+  if (pending.clientRedirectUri && pending.codeChallenge) {
+    const code = await createAuthorizationCode(kv, {
+      serverKey,
+      redirectUri: pending.clientRedirectUri,
+      codeChallenge: pending.codeChallenge,
+    });
+    const redirect = new URL(pending.clientRedirectUri);
+    redirect.searchParams.set('code', code);
+    if (pending.clientState) {
+      redirect.searchParams.set('state', pending.clientState);
+    }
+    return Response.redirect(redirect.toString(), 302);
+  }
+
+  return jsonResponse({
+    access_token: serverKey,
+    token_type: 'Bearer',
+    usage: 'Send as "Authorization: Bearer <access_token>" to /mcp',
+  });
+}
+
+async function handleToken(request: Request, kv: KVNamespace): Promise<Response> {
+  const params = await readTokenParams(request);
+  if (params.get('grant_type') !== 'authorization_code') {
+    return jsonResponse({ error: 'unsupported_grant_type' }, 400);
+  }
+
+  const code = params.get('code');
+  const grant = code ? await consumeAuthorizationCode(kv, code) : null;
+  if (!grant) {
+    return jsonResponse({ error: 'invalid_grant', message: 'Unknown or expired code' }, 400);
+  }
+  if (params.get('redirect_uri') !== grant.redirectUri) {
+    return jsonResponse({ error: 'invalid_grant', message: 'redirect_uri does not match' }, 400);
+  }
+  const codeVerifier = params.get('code_verifier');
+  if (!codeVerifier || (await computeCodeChallenge(codeVerifier)) !== grant.codeChallenge) {
+    return jsonResponse({ error: 'invalid_grant', message: 'Invalid code_verifier' }, 400);
+  }
+
+  return jsonResponse({ access_token: grant.serverKey, token_type: 'Bearer' });
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Read token request parameters from a form or JSON body
+ */
+async function readTokenParams(request: Request): Promise<URLSearchParams> {
+  const contentType = request.headers.get('Content-Type') || '';
+  if (contentType.includes('application/json')) {
+    const body = (await request.json()) as Record<string, string>;
+    return new URLSearchParams(body);
+  }
+  return new URLSearchParams(await request.text());
+}
+
+/**
+ * Compute the PKCE S256 code challenge for a code verifier
+ */
+export async function computeCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+function getCallbackUrl(url: URL, env: Env): string {
+  return env.GUSTO_OAUTH_REDIRECT_URI || `${url.origin}/oauth/callback`;
+}
+
+function isAllowedRedirectUri(value: string): boolean {
+  try {
+    const uri = new URL(value);
+    return (
+      uri.protocol === 'https:' ||
+      (uri.protocol === 'http:' && ['localhost', '127.0.0.1'].includes(uri.hostname))
+    );
+  } catch {
+    return false;
+  }
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryKv } from '../test/memory-kv.js';
+import type { Env } from '../types/env.js';
+import { createTokenRefresher } from './refresh.js';
+import { getRotatedTokens, putRotatedTokens } from './store.js';
+
+/**
+ * Stub Gusto's token endpoint, answering refresh token N with tokens N + 1
+ */
+function stubTokenEndpoint() {
+  const refreshTokens: string[] = [];
+  vi.stubGlobal('fetch', async (_input: RequestInfo | URL, init?: RequestInit) => {
+    const refreshToken = new URLSearchParams(String(init?.body)).get('refresh_token') as string;
+    refreshTokens.push(refreshToken);
+    const next = Number(refreshToken.replace('refresh-', '')) + 1;
+    return Response.json({
+      access_token: `access-${next}`,
+      refresh_token: `refresh-${next}`,
+      expires_in: 7200,
+    });
+  });
+  return refreshTokens;
+}
+
+function createEnv(kv: KVNamespace): Env {
+  return { OAUTH_KV: kv, GUSTO_CLIENT_ID: 'client', GUSTO_CLIENT_SECRET: 'secret' } as Env;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createTokenRefresher with a header refresh token', () => {
+  it('records the rotation under the original refresh token', async () => {
+    const refreshTokens = stubTokenEndpoint();
+    const kv = createMemoryKv();
+    const refresher = createTokenRefresher({ refreshToken: 'refresh-0' }, createEnv(kv));
+
+    expect(await refresher?.refresh('access-0')).toBe('access-1');
+    expect(refreshTokens).toEqual(['refresh-0']);
+    expect(await getRotatedTokens(kv, 'refresh-0')).toMatchObject({
+      accessToken: 'access-1',
+      refreshToken: 'refresh-1',
+    });
+  });
+
+  it('reuses a rotated access token that is still valid', async () => {
+    const refreshTokens = stubTokenEndpoint();
+    const kv = createMemoryKv();
+    await putRotatedTokens(kv, 'refresh-0', {
+      accessToken: 'access-1',
+      refreshToken: 'refresh-1',
+      expiresAt: Date.now() + 3_600_000,
+      createdAt: 0,
+      updatedAt: 0,
+    });
+    const refresher = createTokenRefresher({ refreshToken: 'refresh-0' }, createEnv(kv));
+
+    expect(await refresher?.refresh('access-0')).toBe('access-1');
+    expect(refreshTokens).toEqual([]);
+  });
+
+  it('refreshes from the rotated refresh token once its access token expired', async () => {
+    const refreshTokens = stubTokenEndpoint();
+    const kv = createMemoryKv();
+    await putRotatedTokens(kv, 'refresh-0', {
+      accessToken: 'access-1',
+      refreshToken: 'refresh-1',
+      expiresAt: Date.now() - 1000,
+      createdAt: 0,
+      updatedAt: 0,
+    });
+    const refresher = createTokenRefresher({ refreshToken: 'refresh-0' }, createEnv(kv));
+
+    expect(await refresher?.refresh('access-0')).toBe('access-2');
+    expect(refreshTokens).toEqual(['refresh-1']);
+    expect(await getRotatedTokens(kv, 'refresh-0')).toMatchObject({ refreshToken: 'refresh-2' });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Access Token Refresh
+ *
+ * Builds the TokenRefresher the client uses when Gusto rejects an expired
+ * access token. Refreshed tokens are persisted so the rotated refresh token
+ * survives the current request:
+ * - Server-key tenants: the tenant record in OAUTH_KV is updated in place
+ * - Header-supplied refresh tokens: the rotation is recorded in OAUTH_KV
+ *   (when bound) keyed by the original refresh token
+ */
+
+import type { TokenRefresher } from '../client.js';
+import type { Env, TenantCredentials } from '../types/env.js';
+import { AuthenticationError } from '../utils/errors.js';
+import { requestGustoToken } from './oauth.js';
+import {
+  getRotatedTokens,
+  getTenantTokens,
+  putRotatedTokens,
+  putTenantTokens,
+  type StoredTenantTokens,
+} from './store.js';
+
+/** Treat stored access tokens this close to expiry as already expired */
+const EXPIRY_SKEW_MS = 60_000;
+
+/**
+ * Where refreshed tokens are loaded from and saved to
+ */
+interface TokenSlot {
+  load(): Promise<StoredTenantTokens | null>;
+  save(tokens: StoredTenantTokens): Promise<void>;
+}
+
+/**
+ * Create a token refresher for the tenant, or undefined when refresh is not
+ * possible (no OAuth client credentials or no refresh token source).
+ */
+export function createTokenRefresher(
+  credentials: TenantCredentials,
+  env: Env
+): TokenRefresher | undefined {
+  const clientId = credentials.clientId || env.GUSTO_CLIENT_ID;
+  const clientSecret = credentials.clientSecret || env.GUSTO_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    return undefined;
+  }
+
+  const kv = env.OAUTH_KV;
+  const { serverKey, refreshToken } = credentials;
+
+  let slot: TokenSlot;
+  if (serverKey && kv) {
+    slot = {
+      load: () => getTenantTokens(kv, serverKey),
+      save: (tokens) => putTenantTokens(kv, serverKey, tokens),
+    };
+  } else if (refreshToken && kv) {
+    slot = {
+      load: () => getRotatedTokens(kv, refreshToken),
+      save: (tokens) => putRotatedTokens(kv, refreshToken, tokens),
+    };
+  } else if (refreshToken) {
+    let latest: StoredTenantTokens | null = null;
+    slot = {
+      load: async () => latest,
+      save: async (tokens) => {
+        latest = tokens;
+      },
+    };
+  } else {
+    return undefined;
+  }
+
+  return {
+    async refresh(staleToken: string): Promise<string> {
+      const stored = await slot.load();
+      // Another request already refreshed the token
+      if (stored && isFreshToken(stored, staleToken)) {
+        return stored.accessToken;
+      }
+
+      const currentRefreshToken = stored?.refreshToken ?? refreshToken;
+      if (!currentRefreshToken) {
+        throw new AuthenticationError('Access token expired and no refresh token is available.');
+      }
+
+      let tokens: StoredTenantTokens;
+      try {
+        tokens = await requestGustoToken({
+          client_id: clientId,
+          client_secret: clientSecret,
+          refresh_token: currentRefreshToken,
+          grant_type: 'refresh_token',
+        });
+      } catch (error) {
+        // A concurrent refresh may have rotated the refresh token first
+        const latest = await slot.load();
+        if (
+          latest &&
+          latest.accessToken !== stored?.accessToken &&
+          isFreshToken(latest, staleToken)
+        ) {
+          return latest.accessToken;
+        }
+        throw error;
+      }
+
+      await slot.save({
+        ...tokens,
+        refreshToken: tokens.refreshToken ?? currentRefreshToken,
+        createdAt: stored?.createdAt ?? tokens.createdAt,
+      });
+      return tokens.accessToken;
+    },
+  };
+}
+
+/**
+ * Check whether stored tokens hold an access token other than the rejected
+ * one that has not expired yet. A rotation recorded for a header-supplied
+ * refresh token outlives its access token, so a different token alone does
+ * not mean it is usable.
+ */
+function isFreshToken(tokens: StoredTenantTokens, staleToken: string): boolean {
+  if (tokens.accessToken === staleToken) {
+    return false;
+  }
+  return tokens.expiresAt === undefined || tokens.expiresAt > Date.now() + EXPIRY_SKEW_MS;
+}
@@ -0,0 +1,249 @@
+/**
+ * Tenant Token Store
+ *
+ * Persists Gusto OAuth tokens, event cursors and redeemed confirmation token
+ * nonces in the OAUTH_KV namespace.
+ * Tenants are keyed by a SHA-256 hash of their opaque server-issued key (or
+ * access token), so the raw secret is never written to storage.
+ */
+
+/**
+ * Gusto tokens stored for a tenant
+ */
+export interface StoredTenantTokens {
+  accessToken: string;
+  refreshToken?: string;
+  /** Access token expiry (epoch ms) */
+  expiresAt?: number;
+  scope?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Position in the Gusto event stream stored by gusto_poll_changes
+ */
+export interface StoredEventCursor {
+  /** Last event read */
+  eventUuid: string;
+  updatedAt: number;
+}
+
+/**
+ * Pending authorization started by /oauth/authorize
+ */
+export interface PendingAuthorization {
+  /** Where to send the MCP client after the Gusto callback */
+  clientRedirectUri?: string;
+  /** State value supplied by the MCP client */
+  clientState?: string;
+  /** PKCE S256 code challenge supplied by the MCP client */
+  codeChallenge?: string;
+}
+
+/**
+ * Server-issued authorization code, bound to the client that requested it
+ */
+export interface AuthorizationCodeGrant {
+  serverKey: string;
+  /** redirect_uri the code was sent to; /oauth/token must present the same value */
+  redirectUri: string;
+  /** PKCE S256 code challenge the code_verifier must match */
+  codeChallenge: string;
+}
+
+const TENANT_PREFIX = 'tenant:';
+const ROTATION_PREFIX = 'refresh_rotation:';
+const STATE_PREFIX = 'oauth_state:';
+const CODE_PREFIX = 'oauth_code:';
+const CURSOR_PREFIX = 'event_cursor:';
+const NONCE_PREFIX = 'confirmation_nonce:';
+
+/** Pending authorizations expire after 10 minutes */
+const STATE_TTL_SECONDS = 600;
+
+/** Server-issued authorization codes expire after 5 minutes */
+const CODE_TTL_SECONDS = 300;
+
+/** KV rejects expiration TTLs below 60 seconds */
+const MIN_TTL_SECONDS = 60;
+
+/** Rotations of header-supplied refresh tokens are kept for 30 days */
+const ROTATION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Generate a URL-safe random token
+ */
+export function generateOpaqueToken(prefix = '', bytes = 32): string {
+  return `${prefix}${base64UrlEncode(crypto.getRandomValues(new Uint8Array(bytes)))}`;
+}
+
+/**
+ * Encode bytes as unpadded base64url
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Hash a server key or refresh token for use as a storage key
+ */
+export async function hashSecret(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Load the tokens stored for a server key
+ */
+export async function getTenantTokens(
+  kv: KVNamespace,
+  serverKey: string
+): Promise<StoredTenantTokens | null> {
+  return kv.get<StoredTenantTokens>(`${TENANT_PREFIX}${await hashSecret(serverKey)}`, 'json');
+}
+
+/**
+ * Store the tokens for a server key
+ */
+export async function putTenantTokens(
+  kv: KVNamespace,
+  serverKey: string,
+  tokens: StoredTenantTokens
+): Promise<void> {
+  await kv.put(`${TENANT_PREFIX}${await hashSecret(serverKey)}`, JSON.stringify(tokens));
+}
+
+/**
+ * Load the latest tokens obtained by refreshing a header-supplied refresh token.
+ * Gusto rotates refresh tokens, so callers that keep sending the original one
+ * are transparently moved onto the rotated tokens.
+ */
+export async function getRotatedTokens(
+  kv: KVNamespace,
+  refreshToken: string
+): Promise<StoredTenantTokens | null> {
+  return kv.get<StoredTenantTokens>(`${ROTATION_PREFIX}${await hashSecret(refreshToken)}`, 'json');
+}
+
+/**
+ * Record the tokens obtained by refreshing a header-supplied refresh token
+ */
+export async function putRotatedTokens(
+  kv: KVNamespace,
+  refreshToken: string,
+  tokens: StoredTenantTokens
+): Promise<void> {
+  await kv.put(`${ROTATION_PREFIX}${await hashSecret(refreshToken)}`, JSON.stringify(tokens), {
+    expirationTtl: ROTATION_TTL_SECONDS,
+  });
+}
+
+/**
+ * Record a pending authorization and return its state value
+ */
+export async function createPendingAuthorization(
+  kv: KVNamespace,
+  pending: PendingAuthorization
+): Promise<string> {
+  const state = generateOpaqueToken();
+  await kv.put(`${STATE_PREFIX}${state}`, JSON.stringify(pending), {
+    expirationTtl: STATE_TTL_SECONDS,
+  });
+  return state;
+}
+
+/**
+ * Look up and consume a pending authorization
+ */
+export async function consumePendingAuthorization(
+  kv: KVNamespace,
+  state: string
+): Promise<PendingAuthorization | null> {
+  const key = `${STATE_PREFIX}${state}`;
+  const pending = await kv.get<PendingAuthorization>(key, 'json');
+  if (pending) {
+    await kv.delete(key);
+  }
+  return pending;
+}
+
+/**
+ * Issue a one-time code that /oauth/token exchanges for the server key
+ */
+export async function createAuthorizationCode(
+  kv: KVNamespace,
+  grant: AuthorizationCodeGrant
+): Promise<string> {
+  const code = generateOpaqueToken();
+  await kv.put(`${CODE_PREFIX}${code}`, JSON.stringify(grant), {
+    expirationTtl: CODE_TTL_SECONDS,
+  });
+  return code;
+}
+
+/**
+ * Look up and consume a server-issued authorization code
+ */
+export async function consumeAuthorizationCode(
+  kv: KVNamespace,
+  code: string
+): Promise<AuthorizationCodeGrant | null> {
+  const key = `${CODE_PREFIX}${code}`;
+  const grant = await kv.get<AuthorizationCodeGrant>(key, 'json');
+  if (grant) {
+    await kv.delete(key);
+  }
+  return grant;
+}
+
+/**
+ * Load a tenant's named event cursor
+ *
+ * @param tenantId - Stable tenant identifier, such as the token's resource owner UUID
+ */
+export async function getEventCursor(
+  kv: KVNamespace,
+  tenantId: string,
+  name: string
+): Promise<StoredEventCursor | null> {
+  return kv.get<StoredEventCursor>(`${CURSOR_PREFIX}${await hashSecret(tenantId)}:${name}`, 'json');
+}
+
+/**
+ * Store a tenant's named event cursor
+ */
+export async function putEventCursor(
+  kv: KVNamespace,
+  tenantId: string,
+  name: string,
+  cursor: StoredEventCursor
+): Promise<void> {
+  await kv.put(`${CURSOR_PREFIX}${await hashSecret(tenantId)}:${name}`, JSON.stringify(cursor));
+}
+
+/**
+ * Record a redeemed confirmation token nonce until the token expires.
+ * Resolves false when the nonce was already recorded.
+ *
+ * Best effort only: the read and the write are not atomic and KV is eventually
+ * consistent, so two redemptions racing on different isolates can both see
+ * the nonce as unused. Prefer markConfirmationNonceUsedOnce when the
+ * CONFIRMATION_NONCES Durable Object is bound.
+ */
+export async function markConfirmationNonceUsed(
+  kv: KVNamespace,
+  nonce: string,
+  expiresAt: number
+): Promise<boolean> {
+  const key = `${NONCE_PREFIX}${nonce}`;
+  if (await kv.get(key)) {
+    return false;
+  }
+  const ttl = Math.ceil((expiresAt - Date.now()) / 1000);
+  await kv.put(key, '1', { expirationTtl: Math.max(MIN_TTL_SECONDS, ttl) });
+  return true;
+}
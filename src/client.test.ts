@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { createGustoClient, type GustoClientOptions } from './client.js';
+import { CrmApiError, RateLimitError, VersionConflictError } from './utils/errors.js';
+
+type FakeResponse = Response | (() => Response) | Error;
+
+/**
+ * fetch that answers with the given responses in order and records each call
+ */
+function fakeFetch(responses: FakeResponse[]) {
+  const calls: { url: string; init?: RequestInit }[] = [];
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    calls.push({ url: String(input), init });
+    const next = responses.shift();
+    if (!next) throw new Error('Unexpected request');
+    if (next instanceof Error) throw next;
+    return typeof next === 'function' ? next() : next;
+  };
+  return { fetch: fetch as typeof globalThis.fetch, calls };
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function createClient(fetch: typeof globalThis.fetch, options: GustoClientOptions = {}) {
+  return createGustoClient(
+    { accessToken: 'token' },
+    { fetch, retry: { baseDelayMs: 1, maxDelayMs: 2 }, ...options }
+  );
+}
+
+describe('GustoClient retries', () => {
+  it('retries a 429 after the Retry-After delay', async () => {
+    const { fetch, calls } = fakeFetch([
+      json({ message: 'Slow down' }, 429, { 'Retry-After': '0' }),
+      json({ uuid: 'c1', name: 'Acme' }),
+    ]);
+
+    const company = await createClient(fetch).getCompany('c1');
+
+    expect(company.uuid).toBe('c1');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('retries a 429 without Retry-After using backoff', async () => {
+    const { fetch, calls } = fakeFetch([
+      json({ message: 'Slow down' }, 429),
+      json({ uuid: 'c1', name: 'Acme' }),
+    ]);
+
+    const company = await createClient(fetch).getCompany('c1');
+
+    expect(company.uuid).toBe('c1');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('retries server errors and network failures', async () => {
+    const { fetch, calls } = fakeFetch([
+      json({ message: 'Unavailable' }, 503),
+      new TypeError('network connection lost'),
+      json({ uuid: 'c1', name: 'Acme' }),
+    ]);
+
+    const company = await createClient(fetch).getCompany('c1');
+
+    expect(company.uuid).toBe('c1');
+    expect(calls).toHaveLength(3);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const { fetch, calls } = fakeFetch([json({}, 500), json({}, 500), json({}, 500)]);
+
+    await expect(
+      createClient(fetch, { retry: { maxRetries: 2, baseDelayMs: 1 } }).getCompany('c1')
+    ).rejects.toBeInstanceOf(CrmApiError);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('does not wait past maxTotalWaitMs', async () => {
+    const { fetch, calls } = fakeFetch([json({}, 429, { 'Retry-After': '60' })]);
+
+    await expect(createClient(fetch).getCompany('c1')).rejects.toBeInstanceOf(RateLimitError);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('does not retry client errors', async () => {
+    const { fetch, calls } = fakeFetch([json({ message: 'Not found' }, 404)]);
+
+    await expect(createClient(fetch).getCompany('c1')).rejects.toThrow('Not found');
+    expect(calls).toHaveLength(1);
+  });
+
+  it('does not retry a POST without an Idempotency-Key', async () => {
+    const { fetch, calls } = fakeFetch([json({}, 503)]);
+
+    await expect(
+      createClient(fetch).createWebhookSubscription({
+        url: 'https://example.com/webhooks/gusto',
+        subscriptionTypes: ['Employee'],
+      })
+    ).rejects.toBeInstanceOf(CrmApiError);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].init?.method).toBe('POST');
+  });
+});
+
+describe('GustoClient pagination', () => {
+  it('pages time off requests and filters by status within the page', async () => {
+    const { fetch, calls } = fakeFetch([
+      json(
+        [
+          { uuid: 'r1', status: 'approved' },
+          { uuid: 'r2', status: 'pending' },
+        ],
+        200,
+        { 'X-Total-Count': '3' }
+      ),
+    ]);
+
+    const result = await createClient(fetch).listTimeOffRequests('c1', {
+      per: 2,
+      status: 'pending',
+    });
+
+    expect(new URL(calls[0].url).searchParams.get('per')).toBe('2');
+    expect(result.items.map((r) => r.uuid)).toEqual(['r2']);
+    expect(result).toMatchObject({ hasMore: true, nextPage: 2 });
+  });
+});
+
+describe('GustoClient conflicts', () => {
+  it('reports a 409 on a version-locked update as a version conflict', async () => {
+    const { fetch } = fakeFetch([json({ message: 'Conflict' }, 409)]);
+
+    await expect(
+      createClient(fetch).updateCompanyFederalTaxDetails('c1', { version: 'v1', ein: '12-3456789' })
+    ).rejects.toBeInstanceOf(VersionConflictError);
+  });
+
+  it('keeps other 409s as API errors', async () => {
+    const { fetch } = fakeFetch([json({ message: 'Department already exists' }, 409)]);
+
+    const error = await createClient(fetch)
+      .createDepartment('c1', 'Engineering')
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(CrmApiError);
+    expect(error).not.toBeInstanceOf(VersionConflictError);
+    expect(error).toMatchObject({ statusCode: 409, message: 'Department already exists' });
+  });
+});
@@ -11,6 +11,8 @@ import type {
   CompanyBankAccount,
   CompanyBenefit,
   CompanyBenefitCreateInput,
+  CompanyFederalTaxDetails,
+  CompanyFederalTaxDetailsUpdateInput,
   CompanyForm,
   CompanyLocation,
   CompanyLocationCreateInput,
@@ -37,11 +39,22 @@ import type {
   EmployeeOnboardingStatus,
   EmployeePaymentMethod,
   EmployeeUpdateInput,
+  ExternalPayroll,
+  ExternalPayrollCreateInput,
+  ExternalPayrollItemInput,
+  ExternalPayrollTaxLiability,
+  ExternalPayrollTaxSuggestions,
   FederalTaxDetails,
   Garnishment,
   GarnishmentCreateInput,
   GustoEvent,
   HolidayPayPolicy,
+  I9Authorization,
+  I9AuthorizationUpdateInput,
+  I9Document,
+  I9DocumentInput,
+  I9DocumentOption,
+  I9EmployerSignInput,
   HomeAddress,
   HomeAddressCreateInput,
   Job,
@@ -53,44 +66,111 @@ import type {
   PaginationParams,
   PayPeriod,
   Payroll,
+  PayrollBlocker,
+  PayrollReceipt,
+  PayrollReversal,
+  PayrollReversalCreateInput,
+  PayrollSkipInput,
   PayrollUpdateInput,
   PaySchedule,
   PayScheduleCreateInput,
+  PayStub,
+  PayStubLineItem,
+  PayStubSummary,
   RecurringReimbursement,
   RecurringReimbursementCreateInput,
   Rehire,
+  Report,
+  ReportCreateInput,
   Signatory,
   StateTaxDetails,
   SupportedBenefit,
   Termination,
   TerminationCreateInput,
   TimeOffPolicy,
+  TaxLiabilitySelection,
   TimeOffPolicyCreateInput,
+  TimeOffActivity,
+  TimeOffRequest,
+  TimeOffRequestCreateInput,
+  TimeOffRequestFilters,
   TokenInfo,
   WebhookSubscription,
   WebhookSubscriptionCreateInput,
   WorkAddress,
 } from './types/entities.js';
 import type { TenantCredentials } from './types/env.js';
-import { AuthenticationError, CrmApiError, RateLimitError } from './utils/errors.js';
+import { parseCsv } from './utils/csv.js';
+import {
+  AuthenticationError,
+  CrmApiError,
+  isRetryableError,
+  NotFoundError,
+  RateLimitError,
+  VersionConflictError,
+} from './utils/errors.js';
+import {
+  normalizePaginationParams,
+  PAGINATION_DEFAULTS,
+  type PaginationLimits,
+  paginateFromHeaders,
+} from './utils/pagination.js';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelayMs,
+  isIdempotentRequest,
+  parseRetryAfter,
+  type RetryOptions,
+  sleep,
+} from './utils/retry.js';
+import { API_VERSION_HEADER, adaptPayload, DEFAULT_API_VERSION } from './utils/versions.js';
 
 const API_BASE_URL = 'https://api.gusto.com/v1';
 
+// =============================================================================
+// Client Options
+// =============================================================================
+
+export interface GustoClientOptions {
+  /** Retry policy overrides (merged with DEFAULT_RETRY_OPTIONS) */
+  retry?: Partial<RetryOptions>;
+  /** fetch implementation (defaults to the global fetch; override in tests) */
+  fetch?: typeof fetch;
+  /** Refreshes the access token once when Gusto answers 401 */
+  tokenRefresher?: TokenRefresher;
+  /** Default and maximum page sizes for list requests */
+  pagination?: Partial<PaginationLimits>;
+}
+
+/**
+ * Obtains a new access token after the current one was rejected
+ */
+export interface TokenRefresher {
+  /**
+   * Return a valid access token.
+   * @param staleToken - The access token Gusto rejected
+   */
+  refresh(staleToken: string): Promise<string>;
+}
+
 // =============================================================================
 // Gusto Client Interface
 // =============================================================================
 
 export interface GustoClient {
   // Connection
-  testConnection(): Promise<{ connected: boolean; message: string }>;
+  testConnection(): Promise<{ connected: boolean; message: string; apiVersion: string }>;
   getTokenInfo(): Promise<TokenInfo>;
+  getApiVersion(): string;
 
   // Companies
   getCompany(companyId: string): Promise<Company>;
   updateCompany(companyId: string, data: Partial<Company>): Promise<Company>;
+  getCompanyFederalTaxDetails(companyId: string): Promise<CompanyFederalTaxDetails>;
+  updateCompanyFederalTaxDetails(companyId: string, data: CompanyFederalTaxDetailsUpdateInput): Promise<CompanyFederalTaxDetails>;
 
   // Locations
-  listLocations(companyId: string): Promise<CompanyLocation[]>;
+  listLocations(companyId: string, params?: PaginationParams): Promise<PaginatedResponse<CompanyLocation>>;
   getLocation(locationId: string): Promise<CompanyLocation>;
   createLocation(companyId: string, data: CompanyLocationCreateInput): Promise<CompanyLocation>;
   updateLocation(locationId: string, data: Partial<CompanyLocationCreateInput>): Promise<CompanyLocation>;
@@ -161,6 +241,14 @@ export interface GustoClient {
   getEmployeePaymentMethod(employeeId: string): Promise<EmployeePaymentMethod>;
   updateEmployeePaymentMethod(employeeId: string, data: EmployeePaymentMethod): Promise<EmployeePaymentMethod>;
 
+  // I-9 Authorization
+  getI9Authorization(employeeId: string): Promise<I9Authorization | null>;
+  updateI9Authorization(employeeId: string, data: I9AuthorizationUpdateInput): Promise<I9Authorization>;
+  listI9DocumentOptions(employeeId: string): Promise<I9DocumentOption[]>;
+  listI9Documents(employeeId: string): Promise<I9Document[]>;
+  updateI9Documents(employeeId: string, documents: I9DocumentInput[]): Promise<I9Document[]>;
+  signI9EmployerSection(employeeId: string, data: I9EmployerSignInput): Promise<I9Authorization>;
+
   // Garnishments
   listGarnishments(employeeId: string): Promise<Garnishment[]>;
   getGarnishment(garnishmentId: string): Promise<Garnishment>;
@@ -168,7 +256,7 @@ export interface GustoClient {
   updateGarnishment(garnishmentId: string, data: Partial<GarnishmentCreateInput>): Promise<Garnishment>;
 
   // Contractors
-  listContractors(companyId: string): Promise<Contractor[]>;
+  listContractors(companyId: string, params?: PaginationParams): Promise<PaginatedResponse<Contractor>>;
   getContractor(contractorId: string): Promise<Contractor>;
   createContractor(companyId: string, data: ContractorCreateInput): Promise<Contractor>;
   updateContractor(contractorId: string, data: ContractorUpdateInput): Promise<Contractor>;
@@ -180,17 +268,37 @@ export interface GustoClient {
   createContractorBankAccount(contractorId: string, data: EmployeeBankAccountCreateInput): Promise<ContractorBankAccount>;
 
   // Contractor Payments
-  listContractorPayments(companyId: string, params?: { startDate?: string; endDate?: string; contractorUuid?: string }): Promise<ContractorPayment[]>;
+  listContractorPayments(companyId: string, params?: PaginationParams & { startDate?: string; endDate?: string; contractorUuid?: string }): Promise<PaginatedResponse<ContractorPayment>>;
   createContractorPayment(companyId: string, data: ContractorPaymentCreateInput): Promise<ContractorPayment>;
   getContractorPaymentGroups(companyId: string): Promise<ContractorPaymentGroup[]>;
 
   // Payrolls
-  listPayrolls(companyId: string, params?: { startDate?: string; endDate?: string; processed?: boolean }): Promise<Payroll[]>;
+  listPayrolls(companyId: string, params?: PaginationParams & { startDate?: string; endDate?: string; processed?: boolean }): Promise<PaginatedResponse<Payroll>>;
   getPayroll(companyId: string, payrollId: string): Promise<Payroll>;
   updatePayroll(companyId: string, payrollId: string, data: PayrollUpdateInput): Promise<Payroll>;
   calculatePayroll(companyId: string, payrollId: string): Promise<Payroll>;
   submitPayroll(companyId: string, payrollId: string): Promise<Payroll>;
   createOffCyclePayroll(companyId: string, data: OffCyclePayrollCreateInput): Promise<Payroll>;
+  listPayrollBlockers(companyId: string): Promise<PayrollBlocker[]>;
+  cancelPayroll(companyId: string, payrollId: string): Promise<Payroll>;
+  reversePayroll(companyId: string, payrollId: string, data: PayrollReversalCreateInput): Promise<PayrollReversal>;
+  skipPayroll(companyId: string, data: PayrollSkipInput): Promise<void>;
+
+  // Pay Stubs & Receipts
+  getPayStub(companyId: string, payrollId: string, employeeId: string): Promise<PayStub>;
+  listEmployeePayStubs(employeeId: string, params?: PaginationParams): Promise<PaginatedResponse<PayStubSummary>>;
+  getPayrollReceipt(payrollId: string): Promise<PayrollReceipt>;
+
+  // External Payrolls
+  listExternalPayrolls(companyId: string, params?: PaginationParams): Promise<PaginatedResponse<ExternalPayroll>>;
+  getExternalPayroll(companyId: string, externalPayrollId: string): Promise<ExternalPayroll>;
+  createExternalPayroll(companyId: string, data: ExternalPayrollCreateInput): Promise<ExternalPayroll>;
+  updateExternalPayrollItems(companyId: string, externalPayrollId: string, items: ExternalPayrollItemInput[], replaceFields?: boolean): Promise<ExternalPayroll>;
+  deleteExternalPayroll(companyId: string, externalPayrollId: string): Promise<void>;
+  calculateExternalPayrollTaxes(companyId: string, externalPayrollId: string): Promise<ExternalPayrollTaxSuggestions[]>;
+  getExternalPayrollTaxLiabilities(companyId: string): Promise<ExternalPayrollTaxLiability[]>;
+  updateExternalPayrollTaxLiabilities(companyId: string, selections: TaxLiabilitySelection[]): Promise<ExternalPayrollTaxLiability[]>;
+  finishExternalPayrollTaxLiabilities(companyId: string): Promise<void>;
 
   // Pay Schedules
   listPaySchedules(companyId: string): Promise<PaySchedule[]>;
@@ -205,7 +313,7 @@ export interface GustoClient {
   deactivateEarningType(companyId: string, earningTypeId: string): Promise<void>;
 
   // Company Benefits
-  listCompanyBenefits(companyId: string): Promise<CompanyBenefit[]>;
+  listCompanyBenefits(companyId: string, params?: PaginationParams): Promise<PaginatedResponse<CompanyBenefit>>;
   getCompanyBenefit(benefitId: string): Promise<CompanyBenefit>;
   createCompanyBenefit(companyId: string, data: CompanyBenefitCreateInput): Promise<CompanyBenefit>;
   updateCompanyBenefit(benefitId: string, data: Partial<CompanyBenefitCreateInput>): Promise<CompanyBenefit>;
@@ -227,11 +335,23 @@ export interface GustoClient {
   addEmployeesToTimeOffPolicy(policyId: string, employeeUuids: string[]): Promise<void>;
   removeEmployeesFromTimeOffPolicy(policyId: string, employeeUuids: string[]): Promise<void>;
 
+  // Time Off Requests
+  listTimeOffRequests(companyId: string, filters?: PaginationParams & TimeOffRequestFilters): Promise<PaginatedResponse<TimeOffRequest>>;
+  getTimeOffRequest(companyId: string, requestId: string): Promise<TimeOffRequest>;
+  createTimeOffRequest(companyId: string, data: TimeOffRequestCreateInput): Promise<TimeOffRequest>;
+  approveTimeOffRequest(companyId: string, requestId: string, approverNote?: string): Promise<TimeOffRequest>;
+  denyTimeOffRequest(companyId: string, requestId: string, approverNote?: string): Promise<TimeOffRequest>;
+  listTimeOffActivities(employeeId: string, timeOffType?: string): Promise<TimeOffActivity[]>;
+
   // Holiday Pay Policy
   getHolidayPayPolicy(companyId: string): Promise<HolidayPayPolicy | null>;
   createHolidayPayPolicy(companyId: string, data: Partial<HolidayPayPolicy>): Promise<HolidayPayPolicy>;
   updateHolidayPayPolicy(companyId: string, data: Partial<HolidayPayPolicy>): Promise<HolidayPayPolicy>;
 
+  // Reports
+  createReport(companyId: string, data: ReportCreateInput): Promise<Report>;
+  getReport(requestUuid: string): Promise<Report>;
+
   // Forms
   listEmployeeForms(employeeId: string): Promise<EmployeeForm[]>;
   listCompanyForms(companyId: string): Promise<CompanyForm[]>;
@@ -243,6 +363,8 @@ export interface GustoClient {
   createWebhookSubscription(data: WebhookSubscriptionCreateInput): Promise<WebhookSubscription>;
   updateWebhookSubscription(subscriptionId: string, data: Partial<WebhookSubscriptionCreateInput>): Promise<WebhookSubscription>;
   deleteWebhookSubscription(subscriptionId: string): Promise<void>;
+  requestWebhookVerificationToken(subscriptionId: string): Promise<void>;
+  verifyWebhookSubscription(subscriptionId: string, verificationToken: string): Promise<WebhookSubscription>;
 
   // Events
   listEvents(params?: { startingAfterUuid?: string; resourceUuid?: string; resourceType?: string; limit?: number }): Promise<GustoEvent[]>;
@@ -264,10 +386,21 @@ export interface GustoClient {
 class GustoClientImpl implements GustoClient {
   private credentials: TenantCredentials;
   private baseUrl: string;
-
-  constructor(credentials: TenantCredentials) {
-    this.credentials = credentials;
+  private retry: RetryOptions;
+  private fetchFn: typeof fetch;
+  private apiVersion: string;
+  private tokenRefresher?: TokenRefresher;
+  private pagination: PaginationLimits;
+  private pendingRefresh?: Promise<void>;
+
+  constructor(credentials: TenantCredentials, options: GustoClientOptions = {}) {
+    this.credentials = { ...credentials };
     this.baseUrl = API_BASE_URL;
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+    this.apiVersion = credentials.apiVersion || DEFAULT_API_VERSION;
+    this.tokenRefresher = options.tokenRefresher;
+    this.pagination = { ...PAGINATION_DEFAULTS, ...options.pagination };
   }
 
   private getAuthHeaders(): Record<string, string> {
@@ -277,19 +410,74 @@ class GustoClientImpl implements GustoClient {
     return {
       Authorization: `Bearer ${this.credentials.accessToken}`,
       'Content-Type': 'application/json',
+      [API_VERSION_HEADER]: this.credentials.apiVersion || DEFAULT_API_VERSION,
     };
   }
 
+  /**
+   * Send a request, retrying rate-limited, server and network failures.
+   * Non-idempotent requests are only retried when they carry an Idempotency-Key.
+   */
   private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const { data } = await this.requestWithHeaders<T>(endpoint, options);
+    return data;
+  }
+
+  /**
+   * Like request(), but also returns the response headers (for pagination)
+   */
+  private async requestWithHeaders<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<{ data: T; headers: Headers }> {
+    const canRetry = isIdempotentRequest(options.method, options.headers);
+    let waitedMs = 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(endpoint, options);
+      } catch (error) {
+        if (!canRetry || attempt >= this.retry.maxRetries || !isRetryableError(error)) {
+          throw error;
+        }
+        const delayMs = getRetryDelayMs(error, attempt, this.retry);
+        if (waitedMs + delayMs > this.retry.maxTotalWaitMs) {
+          throw error;
+        }
+        await sleep(delayMs);
+        waitedMs += delayMs;
+      }
+    }
+  }
+
+  private async send<T>(
+    endpoint: string,
+    options: RequestInit,
+    isReplay = false
+  ): Promise<{ data: T; headers: Headers }> {
     const url = `${this.baseUrl}${endpoint}`;
-    const response = await fetch(url, {
+    const authHeaders = this.getAuthHeaders();
+    const accessToken = this.credentials.accessToken as string;
+    const response = await this.fetchFn(url, {
       ...options,
-      headers: { ...this.getAuthHeaders(), ...(options.headers || {}) },
+      headers: { ...authHeaders, ...(options.headers || {}) },
     });
 
+    // Expired access token: refresh once and replay the original request
+    if (response.status === 401 && this.tokenRefresher && !isReplay) {
+      await this.refreshAccessToken(accessToken);
+      return this.send<T>(endpoint, options, true);
+    }
+
+    // Gusto echoes the version that actually served the request
+    const servedVersion = response.headers.get(API_VERSION_HEADER);
+    if (servedVersion) {
+      this.apiVersion = servedVersion;
+    }
+
     if (response.status === 429) {
-      const retryAfter = response.headers.get('Retry-After');
-      throw new RateLimitError('Rate limit exceeded', retryAfter ? parseInt(retryAfter, 10) : 60);
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      throw new RateLimitError('Rate limit exceeded', retryAfter);
     }
 
     if (response.status === 401 || response.status === 403) {
@@ -305,29 +493,76 @@ class GustoClientImpl implements GustoClient {
       } catch {
         // Use default message
       }
-      throw new CrmApiError(message, response.status);
+      if (response.status === 409 && isVersionConflict(options.body, message)) {
+        throw new VersionConflictError(`${message} The resource changed since it was read; fetch it again and retry with the new version.`);
+      }
+      throw new CrmApiError(message, response.status, undefined, response.status >= 500);
     }
 
-    if (response.status === 204) {
-      return undefined as T;
+    if (response.status === 204 || response.headers.get('Content-Length') === '0') {
+      return { data: undefined as T, headers: response.headers };
     }
 
-    return response.json() as Promise<T>;
+    return { data: (await response.json()) as T, headers: response.headers };
+  }
+
+  /**
+   * Refresh the access token. Concurrent callers share a single refresh, and
+   * callers holding a token that was already replaced skip it entirely.
+   */
+  private async refreshAccessToken(staleToken: string): Promise<void> {
+    if (this.credentials.accessToken !== staleToken) {
+      return;
+    }
+    if (!this.pendingRefresh) {
+      const refresher = this.tokenRefresher as TokenRefresher;
+      this.pendingRefresh = refresher
+        .refresh(staleToken)
+        .then((accessToken) => {
+          this.credentials.accessToken = accessToken;
+        })
+        .finally(() => {
+          this.pendingRefresh = undefined;
+        });
+    }
+    await this.pendingRefresh;
+  }
+
+  /**
+   * Query string for one page of a paginated list endpoint
+   */
+  private pageQuery(page: number | undefined, per: number): URLSearchParams {
+    const queryParams = new URLSearchParams();
+    if (page) queryParams.set('page', String(page));
+    queryParams.set('per', String(per));
+    return queryParams;
   }
 
   // ===========================================================================
   // Connection
   // ===========================================================================
 
-  async testConnection(): Promise<{ connected: boolean; message: string }> {
+  async testConnection(): Promise<{ connected: boolean; message: string; apiVersion: string }> {
     try {
       const info = await this.getTokenInfo();
-      return { connected: true, message: `Connected as ${info.resourceOwner?.email || 'authenticated user'}` };
+      return {
+        connected: true,
+        message: `Connected as ${info.resourceOwner?.email || 'authenticated user'}`,
+        apiVersion: this.apiVersion,
+      };
     } catch (error) {
-      return { connected: false, message: error instanceof Error ? error.message : 'Connection failed' };
+      return {
+        connected: false,
+        message: error instanceof Error ? error.message : 'Connection failed',
+        apiVersion: this.apiVersion,
+      };
     }
   }
 
+  getApiVersion(): string {
+    return this.apiVersion;
+  }
+
   async getTokenInfo(): Promise<TokenInfo> {
     const data = await this.request<{
       resource_owner?: { uuid?: string; type?: string; email?: string };
@@ -393,13 +628,49 @@ class GustoClientImpl implements GustoClient {
     };
   }
 
+  async getCompanyFederalTaxDetails(companyId: string): Promise<CompanyFederalTaxDetails> {
+    const data = await this.request<Record<string, unknown>>(`/companies/${companyId}/federal_tax_details`);
+    return this.mapCompanyFederalTaxDetails(data);
+  }
+
+  async updateCompanyFederalTaxDetails(companyId: string, data: CompanyFederalTaxDetailsUpdateInput): Promise<CompanyFederalTaxDetails> {
+    const result = await this.request<Record<string, unknown>>(`/companies/${companyId}/federal_tax_details`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        version: data.version,
+        ein: data.ein,
+        legal_name: data.legalName,
+        tax_payer_type: data.taxPayerType,
+        filing_form: data.filingForm,
+        taxable_as_scorp: data.taxableAsScorp,
+      }),
+    });
+    return this.mapCompanyFederalTaxDetails(result);
+  }
+
+  private mapCompanyFederalTaxDetails(data: Record<string, unknown>): CompanyFederalTaxDetails {
+    return {
+      uuid: data.uuid as string | undefined,
+      ein: data.ein as string | undefined,
+      einVerified: data.ein_verified as boolean | undefined,
+      legalName: data.legal_name as string | undefined,
+      taxPayerType: data.tax_payer_type as string | undefined,
+      filingForm: data.filing_form as string | undefined,
+      taxableAsScorp: data.taxable_as_scorp as boolean | undefined,
+      hasEin: data.has_ein as boolean | undefined,
+      version: data.version as string | undefined,
+    };
+  }
+
   // ===========================================================================
   // Locations
   // ===========================================================================
 
-  async listLocations(companyId: string): Promise<CompanyLocation[]> {
-    const data = await this.request<Array<Record<string, unknown>>>(`/companies/${companyId}/locations`);
-    return data.map((l) => this.mapLocation(l));
+  async listLocations(companyId: string, params?: PaginationParams): Promise<PaginatedResponse<CompanyLocation>> {
+    const { page, per } = normalizePaginationParams(params, this.pagination);
+    const queryParams = this.pageQuery(page, per);
+    const { data, headers } = await this.requestWithHeaders<Array<Record<string, unknown>>>(`/companies/${companyId}/locations?${queryParams}`);
+    return paginateFromHeaders(data.map((l) => this.mapLocation(l)), headers, { page, per });
   }
 
   async getLocation(locationId: string): Promise<CompanyLocation> {
@@ -621,19 +892,12 @@ class GustoClientImpl implements GustoClient {
   // ===========================================================================
 
   async listEmployees(companyId: string, params?: PaginationParams & { terminated?: boolean }): Promise<PaginatedResponse<Employee>> {
-    const queryParams = new URLSearchParams();
-    if (params?.page) queryParams.set('page', String(params.page));
-    if (params?.per) queryParams.set('per', String(params.per));
+    const { page, per } = normalizePaginationParams(params, this.pagination);
+    const queryParams = this.pageQuery(page, per);
     if (params?.terminated !== undefined) queryParams.set('terminated', String(params.terminated));
 
-    const data = await this.request<Array<Record<string, unknown>>>(`/companies/${companyId}/employees?${queryParams}`);
-    const items = data.map((e) => this.mapEmployee(e));
-    return {
-      items,
-      count: items.length,
-      hasMore: items.length === (params?.per || 25),
-      nextPage: items.length === (params?.per || 25) ? (params?.page || 1) + 1 : undefined,
-    };
+    const { data, headers } = await this.requestWithHeaders<Array<Record<string, unknown>>>(`/companies/${companyId}/employees?${queryParams}`);
+    return paginateFromHeaders(data.map((e) => this.mapEmployee(e)), headers, { page, per });
   }
 
   async getEmployee(employeeId: string): Promise<Employee> {
@@ -687,7 +951,8 @@ class GustoClientImpl implements GustoClient {
     };
   }
 
-  private mapEmployee(e: Record<string, unknown>): Employee {
+  private mapEmployee(raw: Record<string, unknown>): Employee {
+    const e = adaptPayload('employee', raw, this.apiVersion);
     const homeAddress = e.home_address as Record<string, unknown> | undefined;
     const jobs = e.jobs as Array<Record<string, unknown>> | undefined;
     const garnishments = e.garnishments as Array<Record<string, unknown>> | undefined;
@@ -1124,6 +1389,115 @@ class GustoClientImpl implements GustoClient {
     };
   }
 
+  // ===========================================================================
+  // I-9 Authorization
+  // ===========================================================================
+
+  async getI9Authorization(employeeId: string): Promise<I9Authorization | null> {
+    try {
+      const data = await this.request<Record<string, unknown>>(`/employees/${employeeId}/i9_authorization`);
+      return this.mapI9Authorization(data);
+    } catch (error) {
+      if (error instanceof CrmApiError && error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async updateI9Authorization(employeeId: string, data: I9AuthorizationUpdateInput): Promise<I9Authorization> {
+    const result = await this.request<Record<string, unknown>>(`/employees/${employeeId}/i9_authorization`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        authorization_status: data.citizenshipStatus,
+        document_type: data.documentType,
+        document_title: data.documentTitle,
+        expiration_date: data.expirationDate,
+        alien_number: data.alienNumber,
+        i94_number: data.i94Number,
+        foreign_passport_number: data.foreignPassportNumber,
+        country_of_issuance: data.countryOfIssuance,
+        version: data.version,
+      }),
+    });
+    return this.mapI9Authorization(result);
+  }
+
+  async listI9DocumentOptions(employeeId: string): Promise<I9DocumentOption[]> {
+    const data = await this.request<Array<Record<string, unknown>>>(`/employees/${employeeId}/i9_authorization/document_options`);
+    return data.map((o) => ({
+      section: o.section as string | undefined,
+      documentType: o.document_type as string | undefined,
+      title: o.title as string | undefined,
+      description: o.description as string | undefined,
+    }));
+  }
+
+  async listI9Documents(employeeId: string): Promise<I9Document[]> {
+    const data = await this.request<Array<Record<string, unknown>>>(`/employees/${employeeId}/i9_authorization/documents`);
+    return data.map((d) => this.mapI9Document(d));
+  }
+
+  async updateI9Documents(employeeId: string, documents: I9DocumentInput[]): Promise<I9Document[]> {
+    const data = await this.request<Array<Record<string, unknown>>>(`/employees/${employeeId}/i9_authorization/documents`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        documents: documents.map((d) => ({
+          document_type: d.documentType,
+          document_title: d.documentTitle,
+          document_number: d.documentNumber,
+          issuing_authority: d.issuingAuthority,
+          expiration_date: d.expirationDate,
+        })),
+      }),
+    });
+    return data.map((d) => this.mapI9Document(d));
+  }
+
+  async signI9EmployerSection(employeeId: string, data: I9EmployerSignInput): Promise<I9Authorization> {
+    const result = await this.request<Record<string, unknown>>(`/employees/${employeeId}/i9_authorization/employer_sign`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        signature_text: data.signatureText,
+        signer_title: data.signerTitle,
+        signer_ip_address: data.signerIpAddress,
+        agree: data.agree,
+        additional_info: data.additionalInfo,
+        alt_procedure: data.altProcedure,
+      }),
+    });
+    return this.mapI9Authorization(result);
+  }
+
+  private mapI9Authorization(a: Record<string, unknown>): I9Authorization {
+    return {
+      uuid: a.uuid as string | undefined,
+      employeeUuid: a.employee_uuid as string | undefined,
+      version: a.version as string | undefined,
+      documentType: a.document_type as string | undefined,
+      documentTitle: a.document_title as string | undefined,
+      citizenshipStatus: (a.authorization_status ?? a.citizenship_status) as string | undefined,
+      expirationDate: a.expiration_date as string | undefined,
+      alienNumber: a.alien_number as string | undefined,
+      i94Number: a.i94_number as string | undefined,
+      foreignPassportNumber: a.foreign_passport_number as string | undefined,
+      countryOfIssuance: a.country_of_issuance as string | undefined,
+      employeeSigned: a.employee_signed as boolean | undefined,
+      employerSigned: a.employer_signed as boolean | undefined,
+    };
+  }
+
+  private mapI9Document(d: Record<string, unknown>): I9Document {
+    return {
+      uuid: d.uuid as string | undefined,
+      documentType: d.document_type as string | undefined,
+      documentTitle: d.document_title as string | undefined,
+      documentNumber: d.document_number as string | undefined,
+      issuingAuthority: d.issuing_authority as string | undefined,
+      expirationDate: d.expiration_date as string | undefined,
+    };
+  }
+
   // ===========================================================================
   // Garnishments
   // ===========================================================================
@@ -1194,9 +1568,12 @@ class GustoClientImpl implements GustoClient {
   // Contractors (continued in next part)
   // ===========================================================================
 
-  async listContractors(companyId: string): Promise<Contractor[]> {
-    const data = await this.request<Array<Record<string, unknown>>>(`/companies/${companyId}/contractors`);
-    return data.map((c) => this.mapContractor(c));
+  async listContractors(companyId: string, params?: PaginationParams): Promise<PaginatedResponse<Contractor>> {
+    const { page, per } = normalizePaginationParams(params, this.pagination);
+    const queryParams = this.pageQuery(page, per);
+
+    const { data, headers } = await this.requestWithHeaders<Array<Record<string, unknown>>>(`/companies/${companyId}/contractors?${queryParams}`);
+    return paginateFromHeaders(data.map((c) => this.mapContractor(c)), headers, { page, per });
   }
 
   async getContractor(contractorId: string): Promise<Contractor> {
@@ -1320,13 +1697,14 @@ class GustoClientImpl implements GustoClient {
   // Contractor Payments
   // ===========================================================================
 
-  async listContractorPayments(companyId: string, params?: { startDate?: string; endDate?: string; contractorUuid?: string }): Promise<ContractorPayment[]> {
-    const queryParams = new URLSearchParams();
+  async listContractorPayments(companyId: string, params?: PaginationParams & { startDate?: string; endDate?: string; contractorUuid?: string }): Promise<PaginatedResponse<ContractorPayment>> {
+    const { page, per } = normalizePaginationParams(params, this.pagination);
+    const queryParams = this.pageQuery(page, per);
     if (params?.startDate) queryParams.set('start_date', params.startDate);
     if (params?.endDate) queryParams.set('end_date', params.endDate);
     if (params?.contractorUuid) queryParams.set('contractor_uuid', params.contractorUuid);
-    const data = await this.request<Array<Record<string, unknown>>>(`/companies/${companyId}/contractor_payments?${queryParams}`);
-    return data.map((p) => this.mapContractorPayment(p));
+    const { data, headers } = await this.requestWithHeaders<Array<Record<string, unknown>>>(`/companies/${companyId}/contractor_payments?${queryParams}`);
+    return paginateFromHeaders(data.map((p) => this.mapContractorPayment(p)), headers, { page, per });
   }
 
   async createContractorPayment(companyId: string, data: ContractorPaymentCreateInput): Promise<ContractorPayment> {
@@ -1376,13 +1754,14 @@ class GustoClientImpl implements GustoClient {
   // Payrolls
   // ===========================================================================
 
-  async listPayrolls(companyId: string, params?: { startDate?: string; endDate?: string; processed?: boolean }): Promise<Payroll[]> {
-    const queryParams = new URLSearchParams();
+  async listPayrolls(companyId: string, params?: PaginationParams & { startDate?: string; endDate?: string; processed?: boolean }): Promise<PaginatedResponse<Payroll>> {
+    const { page, per } = normalizePaginationParams(params, this.pagination);
+    const queryParams = this.pageQuery(page, per);
     if (params?.startDate) queryParams.set('start_date', params.startDate);
     if (params?.endDate) queryParams.set('end_date', params.endDate);
     if (params?.processed !== undefined) queryParams.set('processed', String(params.processed));
-    const data = await this.request<Array<Record<string, unknown>>>(`/companies/${companyId}/payrolls?${queryParams}`);
-    return data.map((p) => this.mapPayroll(p));
+    const { data, headers } = await this.requestWithHeaders<Array<Record<string, unknown>>>(`/companies/${companyId}/payrolls?${queryParams}`);
+    return paginateFromHeaders(data.map((p) => this.mapPayroll(p)), headers, { page, per });
   }
 
   async getPayroll(companyId: string, payrollId: string): Promise<Payroll> {
@@ -1444,8 +1823,54 @@ class GustoClientImpl implements GustoClient {
     return this.mapPayroll(result);
   }
 
-  private mapPayroll(p: Record<string, unknown>): Payroll {
+  async listPayrollBlockers(companyId: string): Promise<PayrollBlocker[]> {
+    const data = await this.request<Array<Record<string, unknown>>>(`/companies/${companyId}/payrolls/blockers`);
+    return data.map((blocker) => ({
+      key: blocker.key as string,
+      message: blocker.message as string,
+    }));
+  }
+
+  async cancelPayroll(companyId: string, payrollId: string): Promise<Payroll> {
+    const data = await this.request<Record<string, unknown>>(`/companies/${companyId}/payrolls/${payrollId}/cancel`, { method: 'PUT' });
+    return this.mapPayroll(data);
+  }
+
+  async reversePayroll(companyId: string, payrollId: string, data: PayrollReversalCreateInput): Promise<PayrollReversal> {
+    const result = await this.request<Record<string, unknown>>(`/companies/${companyId}/payrolls/${payrollId}/reversals`, {
+      method: 'POST',
+      body: JSON.stringify({
+        reason: data.reason,
+        reversed_employee_uuids: data.reversedEmployeeUuids,
+      }),
+    });
+    return {
+      reversedPayrollUuid: (result.reversed_payroll_uuid as string | undefined) ?? payrollId,
+      reversalPayrollUuid: result.reversal_payroll_uuid as string | undefined,
+      reason: result.reason as string | undefined,
+      category: result.category as string | undefined,
+      approvedAt: result.approved_at as string | undefined,
+      reversedEmployeeUuids: result.reversed_employee_uuids as string[] | undefined,
+    };
+  }
+
+  async skipPayroll(companyId: string, data: PayrollSkipInput): Promise<void> {
+    await this.request(`/companies/${companyId}/payrolls/skip`, {
+      method: 'POST',
+      body: JSON.stringify({
+        payroll_type: data.payrollType ?? 'Regular',
+        pay_schedule_uuid: data.payScheduleUuid,
+        start_date: data.startDate,
+        end_date: data.endDate,
+        employee_uuids: data.employeeUuids,
+      }),
+    });
+  }
+
+  private mapPayroll(raw: Record<string, unknown>): Payroll {
+    const p = adaptPayload('payroll', raw, this.apiVersion);
     const totals = p.totals as Record<string, unknown> | undefined;
+    const statusMeta = p.payroll_status_meta as Record<string, unknown> | undefined;
     const employeeCompensations = p.employee_compensations as Array<Record<string, unknown>> | undefined;
     return {
       payrollUuid: p.payroll_uuid as string | undefined,
@@ -1457,6 +1882,8 @@ class GustoClientImpl implements GustoClient {
       payPeriodEndDate: p.pay_period_end_date as string | undefined,
       checkDate: p.check_date as string | undefined,
       payrollDeadline: p.payroll_deadline as string | undefined,
+      debitDate: (statusMeta?.expected_debit_time ?? p.debit_date) as string | undefined,
+      calculatedAt: p.calculated_at as string | undefined,
       payScheduleUuid: p.pay_schedule_uuid as string | undefined,
       payScheduleType: p.pay_schedule_type as string | undefined,
       version: p.version as string | undefined,
@@ -1489,6 +1916,259 @@ class GustoClientImpl implements GustoClient {
     };
   }
 
+  // ===========================================================================
+  // Pay Stubs & Receipts
+  // ===========================================================================
+
+  async getPayStub(companyId: string, payrollId: string, employeeId: string): Promise<PayStub> {
+    const p = await this.request<Record<string, unknown>>(
+      `/companies/${companyId}/payrolls/${payrollId}?include=benefits,deductions,taxes`
+    );
+    const compensations = (p.employee_compensations as Array<Record<string, unknown>> | undefined) ?? [];
+    const ec = compensations.find((c) => c.employee_uuid === employeeId);
+    if (!ec) {
+      throw new NotFoundError('Pay stub', `${payrollId}/${employeeId}`);
+    }
+
+    const list = (key: string) => (ec[key] as Array<Record<string, unknown>> | undefined) ?? [];
+    const lineItem = (item: Record<string, unknown>): PayStubLineItem => ({
+      name: item.name as string,
+      amount: item.amount as string | undefined,
+      hours: item.hours as string | undefined,
+    });
+    const payPeriod = p.pay_period as Record<string, unknown> | undefined;
+
+    return {
+      payrollUuid: ((p.payroll_uuid ?? p.uuid) as string | undefined) ?? payrollId,
+      employeeUuid: employeeId,
+      checkDate: p.check_date as string | undefined,
+      payPeriodStartDate: (payPeriod?.start_date ?? p.pay_period_start_date) as string | undefined,
+      payPeriodEndDate: (payPeriod?.end_date ?? p.pay_period_end_date) as string | undefined,
+      paymentMethod: ec.payment_method as string | undefined,
+      grossPay: ec.gross_pay as string | undefined,
+      netPay: ec.net_pay as string | undefined,
+      earnings: [
+        ...list('hourly_compensations'),
+        ...list('fixed_compensations'),
+        ...list('paid_time_off'),
+      ]
+        .filter((item) => Number(item.amount ?? 0) !== 0 || Number(item.hours ?? 0) !== 0)
+        .map(lineItem),
+      taxes: list('taxes').map((tax) => ({ ...lineItem(tax), employer: tax.employer as boolean | undefined })),
+      benefits: list('benefits').map((benefit) => ({
+        name: benefit.name as string,
+        employeeDeduction: benefit.employee_deduction as string | undefined,
+        companyContribution: benefit.company_contribution as string | undefined,
+      })),
+      deductions: list('deductions').map(lineItem),
+      pdfUrl: `${this.baseUrl}/payrolls/${payrollId}/employees/${employeeId}/pay_stub`,
+    };
+  }
+
+  async listEmployeePayStubs(employeeId: string, params?: PaginationParams): Promise<PaginatedResponse<PayStubSummary>> {
+    const { page, per } = normalizePaginationParams(params, this.pagination);
+    const queryParams = this.pageQuery(page, per);
+    const { data, headers } = await this.requestWithHeaders<Array<Record<string, unknown>>>(`/employees/${employeeId}/pay_stubs?${queryParams}`);
+    const stubs = data.map((stub) => ({
+      payrollUuid: (stub.payroll_uuid ?? stub.uuid) as string,
+      checkDate: stub.check_date as string | undefined,
+      grossPay: stub.gross_pay as string | undefined,
+      netPay: stub.net_pay as string | undefined,
+      checkAmount: stub.check_amount as string | undefined,
+      paymentMethod: stub.payment_method as string | undefined,
+    }));
+    return paginateFromHeaders(stubs, headers, { page, per });
+  }
+
+  async getPayrollReceipt(payrollId: string): Promise<PayrollReceipt> {
+    const data = await this.request<Record<string, unknown>>(`/payrolls/${payrollId}/receipt`);
+    const totals = (data.totals as Record<string, unknown> | undefined) ?? {};
+    const taxes = (data.taxes as Array<Record<string, unknown>> | undefined) ?? [];
+    const compensations = (data.employee_compensations as Array<Record<string, unknown>> | undefined) ?? [];
+    return {
+      payrollUuid: (data.payroll_uuid as string | undefined) ?? payrollId,
+      companyUuid: data.company_uuid as string | undefined,
+      debitDate: data.debit_date as string | undefined,
+      nameOfSender: data.name_of_sender as string | undefined,
+      nameOfRecipient: data.name_of_recipient as string | undefined,
+      recipientNotice: data.recipient_notice as string | undefined,
+      totals: {
+        companyDebit: totals.company_debit as string | undefined,
+        netPayDebit: totals.net_pay_debit as string | undefined,
+        childSupportDebit: totals.child_support_debit as string | undefined,
+        reimbursementDebit: totals.reimbursement_debit as string | undefined,
+        taxDebit: totals.tax_debit as string | undefined,
+      },
+      taxes: taxes.map((tax) => ({ name: tax.name as string, amount: tax.amount as string | undefined })),
+      employeeCompensations: compensations.map((ec) => ({
+        employeeUuid: ec.employee_uuid as string | undefined,
+        employeeFirstName: ec.employee_first_name as string | undefined,
+        employeeLastName: ec.employee_last_name as string | undefined,
+        paymentMethod: ec.payment_method as string | undefined,
+        netPay: ec.net_pay as string | undefined,
+        totalTax: ec.total_tax as string | undefined,
+        totalGarnishments: ec.total_garnishments as string | undefined,
+        childSupportGarnishment: ec.child_support_garnishment as string | undefined,
+        totalReimbursement: ec.total_reimbursement as string | undefined,
+      })),
+    };
+  }
+
+  // ===========================================================================
+  // External Payrolls
+  // ===========================================================================
+
+  async listExternalPayrolls(companyId: string, params?: PaginationParams): Promise<PaginatedResponse<ExternalPayroll>> {
+    const { page, per } = normalizePaginationParams(params, this.pagination);
+    const queryParams = this.pageQuery(page, per);
+    const { data, headers } = await this.requestWithHeaders<Array<Record<string, unknown>>>(`/companies/${companyId}/external_payrolls?${queryParams}`);
+    return paginateFromHeaders(data.map((p) => this.mapExternalPayroll(p)), headers, { page, per });
+  }
+
+  async getExternalPayroll(companyId: string, externalPayrollId: string): Promise<ExternalPayroll> {
+    const data = await this.request<Record<string, unknown>>(`/companies/${companyId}/external_payrolls/${externalPayrollId}`);
+    return this.mapExternalPayroll(data);
+  }
+
+  async createExternalPayroll(companyId: string, data: ExternalPayrollCreateInput): Promise<ExternalPayroll> {
+    const result = await this.request<Record<string, unknown>>(`/companies/${companyId}/external_payrolls`, {
+      method: 'POST',
+      body: JSON.stringify({
+        check_date: data.checkDate,
+        payment_period_start_date: data.paymentPeriodStartDate,
+        payment_period_end_date: data.paymentPeriodEndDate,
+      }),
+    });
+    return this.mapExternalPayroll(result);
+  }
+
+  async updateExternalPayrollItems(companyId: string, externalPayrollId: string, items: ExternalPayrollItemInput[], replaceFields?: boolean): Promise<ExternalPayroll> {
+    const result = await this.request<Record<string, unknown>>(`/companies/${companyId}/external_payrolls/${externalPayrollId}`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        replace_fields: replaceFields,
+        external_payroll_items: items.map((item) => ({
+          employee_uuid: item.employeeUuid,
+          earnings: item.earnings?.map((e) => ({
+            earning_type: e.earningType,
+            earning_id: e.earningId,
+            amount: e.amount,
+            hours: e.hours,
+          })),
+          taxes: item.taxes?.map((t) => ({ tax_id: t.taxId, amount: t.amount })),
+          benefits: item.benefits?.map((b) => ({
+            benefit_id: b.benefitId,
+            employee_deduction_amount: b.employeeDeductionAmount,
+            company_contribution_amount: b.companyContributionAmount,
+          })),
+        })),
+      }),
+    });
+    return this.mapExternalPayroll(result);
+  }
+
+  async deleteExternalPayroll(companyId: string, externalPayrollId: string): Promise<void> {
+    await this.request(`/companies/${companyId}/external_payrolls/${externalPayrollId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async calculateExternalPayrollTaxes(companyId: string, externalPayrollId: string): Promise<ExternalPayrollTaxSuggestions[]> {
+    const data = await this.request<Array<Record<string, unknown>>>(`/companies/${companyId}/external_payrolls/${externalPayrollId}/calculate_taxes`);
+    return data.map((s) => ({
+      employeeUuid: s.employee_uuid as string | undefined,
+      taxSuggestions: (s.tax_suggestions as Array<Record<string, unknown>> | undefined)?.map((t) => ({
+        taxId: t.tax_id as number | undefined,
+        amount: t.amount as string | undefined,
+      })),
+    }));
+  }
+
+  async getExternalPayrollTaxLiabilities(companyId: string): Promise<ExternalPayrollTaxLiability[]> {
+    const data = await this.request<Array<Record<string, unknown>>>(`/companies/${companyId}/external_payrolls/tax_liabilities`);
+    return data.map((l) => this.mapTaxLiability(l));
+  }
+
+  async updateExternalPayrollTaxLiabilities(companyId: string, selections: TaxLiabilitySelection[]): Promise<ExternalPayrollTaxLiability[]> {
+    const data = await this.request<Array<Record<string, unknown>>>(`/companies/${companyId}/external_payrolls/tax_liabilities`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        liability_selections: selections.map((s) => ({
+          tax_id: s.taxId,
+          last_unpaid_external_payroll_uuid: s.lastUnpaidExternalPayrollUuid,
+          unpaid_liability_amount: s.unpaidLiabilityAmount,
+        })),
+      }),
+    });
+    return data.map((l) => this.mapTaxLiability(l));
+  }
+
+  async finishExternalPayrollTaxLiabilities(companyId: string): Promise<void> {
+    await this.request(`/companies/${companyId}/external_payrolls/tax_liabilities/finish`, {
+      method: 'PUT',
+    });
+  }
+
+  private mapExternalPayroll(p: Record<string, unknown>): ExternalPayroll {
+    const items = p.external_payroll_items as Array<Record<string, unknown>> | undefined;
+    return {
+      uuid: p.uuid as string,
+      companyUuid: p.company_uuid as string | undefined,
+      checkDate: p.check_date as string | undefined,
+      paymentPeriodStartDate: p.payment_period_start_date as string | undefined,
+      paymentPeriodEndDate: p.payment_period_end_date as string | undefined,
+      status: p.status as string | undefined,
+      externalPayrollItems: items?.map((item) => ({
+        employeeUuid: item.employee_uuid as string | undefined,
+        earnings: (item.earnings as Array<Record<string, unknown>> | undefined)?.map((e) => ({
+          earningType: e.earning_type as string | undefined,
+          earningId: e.earning_id as number | undefined,
+          amount: e.amount as string | undefined,
+          hours: e.hours as string | undefined,
+        })),
+        taxes: (item.taxes as Array<Record<string, unknown>> | undefined)?.map((t) => ({
+          taxId: t.tax_id as number | undefined,
+          name: t.name as string | undefined,
+          amount: t.amount as string | undefined,
+          employer: t.employer as boolean | undefined,
+        })),
+        benefits: (item.benefits as Array<Record<string, unknown>> | undefined)?.map((b) => ({
+          benefitId: b.benefit_id as number | undefined,
+          benefitType: b.benefit_type as string | undefined,
+          employeeDeduction: (b.employee_deduction_amount ?? b.employee_deduction) as string | undefined,
+          companyContribution: (b.company_contribution_amount ?? b.company_contribution) as string | undefined,
+        })),
+      })),
+      applicableEarnings: (p.applicable_earnings as Array<Record<string, unknown>> | undefined)?.map((e) => ({
+        earningType: e.earning_type as string | undefined,
+        earningId: e.earning_id as number | undefined,
+        name: e.name as string | undefined,
+      })),
+      applicableTaxes: (p.applicable_taxes as Array<Record<string, unknown>> | undefined)?.map((t) => ({
+        id: t.id as number | undefined,
+        name: t.name as string | undefined,
+        employerTax: t.employer_tax as boolean | undefined,
+      })),
+      applicableBenefits: (p.applicable_benefits as Array<Record<string, unknown>> | undefined)?.map((b) => ({
+        id: b.id as number | undefined,
+        description: b.description as string | undefined,
+      })),
+    };
+  }
+
+  private mapTaxLiability(l: Record<string, unknown>): ExternalPayrollTaxLiability {
+    return {
+      taxId: l.tax_id as number | undefined,
+      taxName: l.tax_name as string | undefined,
+      lastUnpaidExternalPayrollUuid: l.last_unpaid_external_payroll_uuid as string | undefined,
+      possibleLiabilities: (l.possible_liabilities as Array<Record<string, unknown>> | undefined)?.map((p) => ({
+        liabilityAmount: p.liability_amount as string | undefined,
+        payrollCheckDate: p.payroll_check_date as string | undefined,
+        externalPayrollUuid: p.external_payroll_uuid as string | undefined,
+      })),
+    };
+  }
+
   // ===========================================================================
   // Pay Schedules
   // ===========================================================================
@@ -1524,15 +2204,22 @@ class GustoClientImpl implements GustoClient {
     if (params?.startDate) queryParams.set('start_date', params.startDate);
     if (params?.endDate) queryParams.set('end_date', params.endDate);
     const data = await this.request<Array<Record<string, unknown>>>(`/companies/${companyId}/pay_periods?${queryParams}`);
-    return data.map((pp) => ({
-      startDate: pp.start_date as string | undefined,
-      endDate: pp.end_date as string | undefined,
-      payScheduleUuid: pp.pay_schedule_uuid as string | undefined,
-      checkDate: pp.check_date as string | undefined,
-      payrollUuid: pp.payroll_uuid as string | undefined,
-      processed: pp.processed as boolean | undefined,
-      eligibleEmployees: pp.eligible_employees as Array<{ uuid: string }> | undefined,
-    }));
+    return data.map((pp) => {
+      // Newer API versions nest the payroll fields under `payroll`
+      const payroll = (pp.payroll ?? pp) as Record<string, unknown>;
+      return {
+        startDate: pp.start_date as string | undefined,
+        endDate: pp.end_date as string | undefined,
+        payScheduleUuid: pp.pay_schedule_uuid as string | undefined,
+        checkDate: (pp.check_date ?? payroll.check_date) as string | undefined,
+        payrollUuid: payroll.payroll_uuid as string | undefined,
+        processed: payroll.processed as boolean | undefined,
+        payrollType: payroll.payroll_type as string | undefined,
+        eligibleEmployees: (pp.eligible_employees as Array<Record<string, unknown>> | undefined)?.map((e) => ({
+          uuid: (e.employee_uuid ?? e.uuid) as string,
+        })),
+      };
+    });
   }
 
   private mapPaySchedule(ps: Record<string, unknown>): PaySchedule {
@@ -1602,9 +2289,11 @@ class GustoClientImpl implements GustoClient {
   // Company Benefits
   // ===========================================================================
 
-  async listCompanyBenefits(companyId: string): Promise<CompanyBenefit[]> {
-    const data = await this.request<Array<Record<string, unknown>>>(`/companies/${companyId}/company_benefits`);
-    return data.map((b) => this.mapCompanyBenefit(b));
+  async listCompanyBenefits(companyId: string, params?: PaginationParams): Promise<PaginatedResponse<CompanyBenefit>> {
+    const { page, per } = normalizePaginationParams(params, this.pagination);
+    const queryParams = this.pageQuery(page, per);
+    const { data, headers } = await this.requestWithHeaders<Array<Record<string, unknown>>>(`/companies/${companyId}/company_benefits?${queryParams}`);
+    return paginateFromHeaders(data.map((b) => this.mapCompanyBenefit(b)), headers, { page, per });
   }
 
   async getCompanyBenefit(benefitId: string): Promise<CompanyBenefit> {
@@ -1822,6 +2511,114 @@ class GustoClientImpl implements GustoClient {
     };
   }
 
+  // ===========================================================================
+  // Time Off Requests
+  // ===========================================================================
+
+  async listTimeOffRequests(companyId: string, filters?: PaginationParams & TimeOffRequestFilters): Promise<PaginatedResponse<TimeOffRequest>> {
+    const { page, per } = normalizePaginationParams(filters, this.pagination);
+    const queryParams = this.pageQuery(page, per);
+    if (filters?.startDate) queryParams.set('start_date', filters.startDate);
+    if (filters?.endDate) queryParams.set('end_date', filters.endDate);
+    const { data, headers } = await this.requestWithHeaders<Array<Record<string, unknown>>>(`/companies/${companyId}/time_off_requests?${queryParams}`);
+
+    // Gusto filters by date range only; status and employee are filtered here,
+    // after paging, so a page may hold fewer than `per` matches
+    const result = paginateFromHeaders(data.map((r) => this.mapTimeOffRequest(r)), headers, { page, per });
+    if (!filters?.status && !filters?.employeeUuid) {
+      return result;
+    }
+    const items = result.items
+      .filter((r) => !filters.status || r.status === filters.status)
+      .filter((r) => !filters.employeeUuid || r.employeeUuid === filters.employeeUuid);
+    return { ...result, items, count: items.length, total: undefined };
+  }
+
+  async getTimeOffRequest(companyId: string, requestId: string): Promise<TimeOffRequest> {
+    const data = await this.request<Record<string, unknown>>(`/companies/${companyId}/time_off_requests/${requestId}`);
+    return this.mapTimeOffRequest(data);
+  }
+
+  async createTimeOffRequest(companyId: string, data: TimeOffRequestCreateInput): Promise<TimeOffRequest> {
+    const result = await this.request<Record<string, unknown>>(`/companies/${companyId}/time_off_requests`, {
+      method: 'POST',
+      body: JSON.stringify({
+        employee_uuid: data.employeeUuid,
+        time_off_policy_uuid: data.timeOffPolicyUuid,
+        request_type: data.requestType,
+        start_date: data.startDate,
+        end_date: data.endDate,
+        hours_per_day: data.hoursPerDay,
+        employee_note: data.employeeNote,
+      }),
+    });
+    return this.mapTimeOffRequest(result);
+  }
+
+  async approveTimeOffRequest(companyId: string, requestId: string, approverNote?: string): Promise<TimeOffRequest> {
+    return this.reviewTimeOffRequest(companyId, requestId, 'approved', approverNote);
+  }
+
+  async denyTimeOffRequest(companyId: string, requestId: string, approverNote?: string): Promise<TimeOffRequest> {
+    return this.reviewTimeOffRequest(companyId, requestId, 'denied', approverNote);
+  }
+
+  async listTimeOffActivities(employeeId: string, timeOffType?: string): Promise<TimeOffActivity[]> {
+    const queryParams = new URLSearchParams();
+    if (timeOffType) queryParams.set('time_off_type', timeOffType);
+    const data = await this.request<Array<Record<string, unknown>>>(`/employees/${employeeId}/time_off_activities?${queryParams}`);
+    return data.map((a) => ({
+      uuid: a.uuid as string,
+      policyName: a.policy_name as string | undefined,
+      policyUuid: a.policy_uuid as string | undefined,
+      eventType: a.event_type as string | undefined,
+      eventDescription: a.event_description as string | undefined,
+      balance: a.balance as string | undefined,
+      balanceChange: a.balance_change as string | undefined,
+      effectiveTime: a.effective_time as string | undefined,
+    }));
+  }
+
+  private async reviewTimeOffRequest(
+    companyId: string,
+    requestId: string,
+    status: 'approved' | 'denied',
+    approverNote?: string
+  ): Promise<TimeOffRequest> {
+    const result = await this.request<Record<string, unknown>>(`/companies/${companyId}/time_off_requests/${requestId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ status, approver_note: approverNote }),
+    });
+    return this.mapTimeOffRequest(result);
+  }
+
+  private mapTimeOffRequest(r: Record<string, unknown>): TimeOffRequest {
+    const employee = r.employee as Record<string, unknown> | undefined;
+    const approver = r.approver as Record<string, unknown> | undefined;
+    return {
+      uuid: r.uuid as string,
+      employeeUuid: (r.employee_uuid ?? employee?.uuid) as string | undefined,
+      employeeNote: r.employee_note as string | undefined,
+      approverNote: r.approver_note as string | undefined,
+      timeOffPolicyUuid: r.time_off_policy_uuid as string | undefined,
+      status: r.status as TimeOffRequest['status'],
+      requestType: r.request_type as string | undefined,
+      startDate: r.start_date as string | undefined,
+      endDate: r.end_date as string | undefined,
+      days: r.days as number | undefined,
+      hours: r.hours as string | undefined,
+      initiatorId: r.initiator_id as string | undefined,
+      employee: employee ? {
+        uuid: employee.uuid as string | undefined,
+        name: employee.full_name as string | undefined,
+      } : undefined,
+      approver: approver ? {
+        uuid: approver.uuid as string | undefined,
+        name: approver.full_name as string | undefined,
+      } : undefined,
+    };
+  }
+
   // ===========================================================================
   // Holiday Pay Policy
   // ===========================================================================
@@ -1883,6 +2680,65 @@ class GustoClientImpl implements GustoClient {
     };
   }
 
+  // ===========================================================================
+  // Reports
+  // ===========================================================================
+
+  async createReport(companyId: string, data: ReportCreateInput): Promise<Report> {
+    const result = await this.request<Record<string, unknown>>(`/companies/${companyId}/reports`, {
+      method: 'POST',
+      body: JSON.stringify({
+        columns: data.columns,
+        groupings: data.groupings,
+        start_date: data.startDate,
+        end_date: data.endDate,
+        custom_name: data.customName,
+        with_totals: data.withTotals,
+        employment_type: data.employmentType,
+        employment_status: data.employmentStatus,
+        employee_uuids: data.employeeUuids,
+        department_uuids: data.departmentUuids,
+        work_address_uuids: data.workAddressUuids,
+        // Always request CSV so completed reports can be parsed into rows
+        file_type: 'csv',
+      }),
+    });
+    return this.mapReport(result);
+  }
+
+  /**
+   * Get a report request. Once the report has completed, its CSV file is
+   * downloaded and parsed into columns and rows.
+   */
+  async getReport(requestUuid: string): Promise<Report> {
+    const data = await this.request<Record<string, unknown>>(`/reports/${requestUuid}`);
+    const report = this.mapReport(data);
+    if (report.status !== 'completed' || !report.downloadUrl) {
+      return report;
+    }
+
+    // Report URLs are pre-signed, so they are fetched without Gusto credentials
+    const response = await this.fetchFn(report.downloadUrl);
+    if (!response.ok) {
+      throw new CrmApiError(`Report download failed: ${response.status}`, response.status, undefined, response.status >= 500);
+    }
+    const { columns, rows } = parseCsv(await response.text());
+    return { ...report, columns, rows };
+  }
+
+  private mapReport(r: Record<string, unknown>): Report {
+    const status = r.status as string | undefined;
+    const reportUrls = r.report_urls as string[] | undefined;
+    return {
+      requestUuid: r.request_uuid as string,
+      companyUuid: r.company_uuid as string | undefined,
+      customName: r.custom_name as string | undefined,
+      // Gusto reports a finished report as "succeeded"
+      status: status === 'succeeded' ? 'completed' : (status as Report['status']) ?? 'pending',
+      downloadUrl: reportUrls?.[0],
+    };
+  }
+
   // ===========================================================================
   // Forms
   // ===========================================================================
@@ -1986,6 +2842,24 @@ class GustoClientImpl implements GustoClient {
     await this.request(`/webhook_subscriptions/${subscriptionId}`, { method: 'DELETE' });
   }
 
+  async requestWebhookVerificationToken(subscriptionId: string): Promise<void> {
+    // Gusto posts the new token to the subscription URL instead of returning it
+    await this.request(`/webhook_subscriptions/${subscriptionId}/request_verification_token`);
+  }
+
+  async verifyWebhookSubscription(subscriptionId: string, verificationToken: string): Promise<WebhookSubscription> {
+    const result = await this.request<Record<string, unknown>>(`/webhook_subscriptions/${subscriptionId}/verify`, {
+      method: 'PUT',
+      body: JSON.stringify({ verification_token: verificationToken }),
+    });
+    return {
+      uuid: result.uuid as string,
+      url: result.url as string | undefined,
+      subscriptionTypes: result.subscription_types as string[] | undefined,
+      status: result.status as 'pending' | 'verified' | 'failed' | undefined,
+    };
+  }
+
   // ===========================================================================
   // Events
   // ===========================================================================
@@ -2002,8 +2876,10 @@ class GustoClientImpl implements GustoClient {
       resourceUuid: e.resource_uuid as string | undefined,
       resourceType: e.resource_type as string | undefined,
       eventType: e.event_type as string | undefined,
+      entityType: e.entity_type as string | undefined,
+      entityUuid: e.entity_uuid as string | undefined,
       timestamp: e.timestamp as string | undefined,
-      companyUuid: e.company_uuid as string | undefined,
+      companyUuid: (e.company_uuid ?? (e.resource_type === 'Company' ? e.resource_uuid : undefined)) as string | undefined,
     }));
   }
 
@@ -2084,12 +2960,35 @@ class GustoClientImpl implements GustoClient {
   }
 }
 
+/**
+ * Whether a 409 is an optimistic locking failure: the request was locked to a
+ * resource version, or Gusto's error message names the version. Other 409s
+ * (duplicates, invalid state transitions) are plain API errors.
+ */
+function isVersionConflict(body: RequestInit['body'], message: string): boolean {
+  if (/\bversion\b/i.test(message)) {
+    return true;
+  }
+  if (typeof body !== 'string') {
+    return false;
+  }
+  try {
+    const payload = JSON.parse(body);
+    return typeof payload === 'object' && payload !== null && 'version' in payload;
+  } catch {
+    return false;
+  }
+}
+
 // =============================================================================
 // Factory Function
 // =============================================================================
 
-export function createGustoClient(credentials: TenantCredentials): GustoClient {
-  return new GustoClientImpl(credentials);
+export function createGustoClient(
+  credentials: TenantCredentials,
+  options?: GustoClientOptions
+): GustoClient {
+  return new GustoClientImpl(credentials, options);
 }
 
 // Re-export for backwards compatibility
@@ -2,29 +2,66 @@
  * Gusto MCP Server - Main Entry Point
  *
  * This file sets up the MCP server using Cloudflare's Agents SDK.
- * It supports both stateless (McpServer) and stateful (McpAgent) modes.
+ * It supports both stateless (McpServer, /mcp) and stateful (McpAgent, /sse) modes.
  *
  * MULTI-TENANT ARCHITECTURE:
  * Tenant credentials (OAuth tokens) are parsed from request headers,
  * allowing a single server deployment to serve multiple customers.
  *
- * Required Headers:
+ * Required Headers (one of):
  * - X-Gusto-Access-Token: OAuth 2.0 access token for Gusto API
+ * - Authorization: Bearer <server key> issued by the /oauth flow
  *
  * Optional Headers:
  * - X-Gusto-API-Version: Override the default API version
+ * - X-Gusto-Refresh-Token / X-Gusto-Client-Id / X-Gusto-Client-Secret:
+ *   refresh the access token transparently when it expires
+ * - X-Gusto-Mode / X-Gusto-Tool-Allowlist / X-Gusto-Tool-Denylist:
+ *   restrict which tools are exposed
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { McpAgent } from 'agents/mcp';
-import { createGustoClient } from './client.js';
-import { registerGustoTools } from './tools/index.js';
+import {
+  createTokenRefresher,
+  getEventCursor,
+  getTenantTokens,
+  handleOAuthRequest,
+  markConfirmationNonceUsed,
+  markConfirmationNonceUsedOnce,
+  OAUTH_PATHS,
+  putEventCursor,
+  resolveTenantCredentials,
+} from './auth/index.js';
+import { createGustoClient, type GustoClient } from './client.js';
+import { registerGustoPrompts } from './prompts/index.js';
+import {
+  RESOURCE_TEMPLATES,
+  registerGustoResources,
+  trackResourceUpdates,
+} from './resources/index.js';
+import {
+  defaultToActiveCompany,
+  type EventCursorStore,
+  parseToolPolicy,
+  registerGustoTools,
+  type SessionContext,
+  TOOL_NAMES,
+  type ToolPolicy,
+  type UsedNonceStore,
+} from './tools/index.js';
 import {
   type Env,
+  getDefaultPageSize,
+  getMaxPageSize,
   type TenantCredentials,
-  parseTenantCredentials,
   validateCredentials,
 } from './types/env.js';
+import { ValidationError } from './utils/errors.js';
+import { handleWebhookRequest, WEBHOOK_PATH } from './webhooks/index.js';
+
+// Durable Object classes must be exported from the Worker entry point
+export { ConfirmationNonces } from './auth/index.js';
 
 // =============================================================================
 // MCP Server Configuration
@@ -33,28 +70,104 @@ import {
 const SERVER_NAME = 'gusto-mcp-server';
 const SERVER_VERSION = '1.0.0';
 
+/** Number of payroll versions remembered per session */
+const MAX_TRACKED_PAYROLL_VERSIONS = 50;
+
 // =============================================================================
 // MCP Agent (Stateful - uses Durable Objects)
 // =============================================================================
 
+/**
+ * Per-session state persisted by the Durable Object
+ */
+export interface GustoSessionState {
+  /** Company UUID the session is working with */
+  activeCompanyId?: string;
+  /** Latest payroll versions seen, keyed by payroll UUID */
+  payrollVersions: Record<string, string>;
+}
+
+/**
+ * Props handed to the agent when a session connects
+ */
+export type GustoAgentProps = {
+  credentials: TenantCredentials;
+  policy?: ToolPolicy;
+};
+
 /**
  * McpAgent provides stateful MCP sessions backed by Durable Objects.
  *
- * NOTE: For multi-tenant deployments, use the stateless mode instead.
- * The stateful McpAgent is better suited for single-tenant deployments where
- * credentials can be stored as wrangler secrets.
+ * Each session is bound to the tenant credentials it connected with. Tenants
+ * using a server key only pass the key; their Gusto tokens are loaded from
+ * OAUTH_KV whenever the agent starts, so refreshed tokens are picked up.
  */
-export class GustoMcpAgent extends McpAgent<Env> {
+export class GustoMcpAgent extends McpAgent<Env, GustoSessionState, GustoAgentProps> {
   server = new McpServer({
     name: SERVER_NAME,
     version: SERVER_VERSION,
   });
 
+  initialState: GustoSessionState = {
+    payrollVersions: {},
+  };
+
   async init() {
-    throw new Error(
-      'Stateful mode (McpAgent) is not supported for multi-tenant deployments. ' +
-        'Use the stateless /mcp endpoint with X-Gusto-Access-Token header instead.'
-    );
+    const credentials = await this.loadCredentials();
+    validateCredentials(credentials);
+
+    const client = createClient(credentials, this.env);
+    registerGustoResources(this.server, client, this.env, this.props?.policy);
+    registerGustoPrompts(this.server, this.props?.policy);
+    const session = this.createSessionContext();
+    const server = trackResourceUpdates(defaultToActiveCompany(this.server, session));
+    registerGustoTools(server, client, this.env, {
+      session,
+      policy: this.props?.policy,
+      confirmationSecret: getConfirmationSecret(credentials, this.env),
+      usedConfirmationNonces: createUsedNonceStore(this.env),
+      eventCursors: createEventCursorStore(client, this.env),
+    });
+  }
+
+  /**
+   * Load credentials from the session props, preferring tokens stored in KV
+   */
+  private async loadCredentials(): Promise<TenantCredentials> {
+    const credentials = this.props?.credentials ?? {};
+    if (credentials.serverKey && this.env.OAUTH_KV) {
+      const tokens = await getTenantTokens(this.env.OAUTH_KV, credentials.serverKey);
+      if (tokens) {
+        return {
+          ...credentials,
+          accessToken: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+        };
+      }
+    }
+    return credentials;
+  }
+
+  /**
+   * Expose the Durable Object state to tools as a SessionContext
+   */
+  private createSessionContext(): SessionContext {
+    return {
+      getActiveCompanyId: () => this.state.activeCompanyId,
+      setActiveCompanyId: (companyId) => {
+        this.setState({ ...this.state, activeCompanyId: companyId });
+      },
+      getPayrollVersions: () => ({ ...this.state.payrollVersions }),
+      recordPayrollVersion: (payrollId, version) => {
+        // Re-insert so the most recently seen payrolls are kept
+        const { [payrollId]: _previous, ...others } = this.state.payrollVersions;
+        const entries = Object.entries({ ...others, [payrollId]: version });
+        this.setState({
+          ...this.state,
+          payrollVersions: Object.fromEntries(entries.slice(-MAX_TRACKED_PAYROLL_VERSIONS)),
+        });
+      },
+    };
   }
 }
 
@@ -69,22 +182,112 @@ export class GustoMcpAgent extends McpAgent<Env> {
  * a single server deployment to serve multiple tenants.
  *
  * @param credentials - Tenant credentials parsed from request headers
+ * @param env - Worker environment (used to persist refreshed tokens)
+ * @param policy - Tool access policy parsed from request headers
  */
-function createStatelessServer(credentials: TenantCredentials): McpServer {
+function createStatelessServer(
+  credentials: TenantCredentials,
+  env: Env,
+  policy: ToolPolicy
+): McpServer {
   const server = new McpServer({
     name: SERVER_NAME,
     version: SERVER_VERSION,
   });
 
   // Create client with tenant-specific credentials
-  const client = createGustoClient(credentials);
+  const client = createClient(credentials, env);
 
-  // Register all Gusto tools
-  registerGustoTools(server, client);
+  // Register the Gusto resources, prompts and the tools the policy allows
+  registerGustoResources(server, client, env, policy);
+  registerGustoPrompts(server, policy);
+  registerGustoTools(server, client, env, {
+    policy,
+    confirmationSecret: getConfirmationSecret(credentials, env),
+    usedConfirmationNonces: createUsedNonceStore(env),
+    eventCursors: createEventCursorStore(client, env),
+  });
 
   return server;
 }
 
+/**
+ * Create a Gusto client configured from the worker environment
+ */
+function createClient(credentials: TenantCredentials, env: Env): GustoClient {
+  return createGustoClient(credentials, {
+    tokenRefresher: createTokenRefresher(credentials, env),
+    pagination: { per: getDefaultPageSize(env), maxPer: getMaxPageSize(env) },
+  });
+}
+
+/**
+ * Secret for signing confirmation tokens. Falls back to a tenant secret so
+ * tokens issued to one tenant are never accepted for another.
+ */
+function getConfirmationSecret(credentials: TenantCredentials, env: Env): string | undefined {
+  const tenantSecret = credentials.serverKey || credentials.accessToken;
+  if (env.CONFIRMATION_SECRET) {
+    return tenantSecret ? `${env.CONFIRMATION_SECRET}:${tenantSecret}` : env.CONFIRMATION_SECRET;
+  }
+  return tenantSecret;
+}
+
+/**
+ * Redeemed confirmation tokens, shared across instances. The
+ * CONFIRMATION_NONCES Durable Object records them atomically; OAUTH_KV is a
+ * best-effort fallback.
+ */
+function createUsedNonceStore(env: Env): UsedNonceStore | undefined {
+  const namespace = env.CONFIRMATION_NONCES;
+  if (namespace) {
+    return {
+      markUsed: (nonce, expiresAt) => markConfirmationNonceUsedOnce(namespace, nonce, expiresAt),
+    };
+  }
+  const kv = env.OAUTH_KV;
+  if (!kv) {
+    return undefined;
+  }
+  return {
+    markUsed: (nonce, expiresAt) => markConfirmationNonceUsed(kv, nonce, expiresAt),
+  };
+}
+
+/**
+ * Event cursors for gusto_poll_changes, kept per tenant in OAUTH_KV. Tenants
+ * are identified by the resource owner of their token, which survives access
+ * token refreshes and re-authorization.
+ */
+function createEventCursorStore(client: GustoClient, env: Env): EventCursorStore | undefined {
+  const kv = env.OAUTH_KV;
+  if (!kv) {
+    return undefined;
+  }
+  let tenantId: Promise<string> | undefined;
+  const getTenantId = () => {
+    tenantId ??= client
+      .getTokenInfo()
+      .then((info) => {
+        if (!info.resourceOwner?.uuid) {
+          throw new ValidationError('Gusto did not report an owner for this token.');
+        }
+        return info.resourceOwner.uuid;
+      })
+      .catch((error) => {
+        // Look the owner up again on the next poll
+        tenantId = undefined;
+        throw error;
+      });
+    return tenantId;
+  };
+  return {
+    get: async (name) => (await getEventCursor(kv, await getTenantId(), name))?.eventUuid,
+    set: async (name, eventUuid) =>
+      putEventCursor(kv, await getTenantId(), name, { eventUuid, updatedAt: Date.now() }),
+  };
+}
+
 // =============================================================================
 // Worker Export
 // =============================================================================
@@ -103,12 +306,22 @@ export default {
       });
     }
 
+    // OAuth authorization-code flow (tokens stored in OAUTH_KV)
+    if (OAUTH_PATHS.includes(url.pathname)) {
+      return handleOAuthRequest(request, env);
+    }
+
+    // Gusto webhook deliveries (events stored in WEBHOOK_KV)
+    if (url.pathname === WEBHOOK_PATH) {
+      return handleWebhookRequest(request, env, ctx);
+    }
+
     // ==========================================================================
     // Stateless MCP with Streamable HTTP (Recommended for multi-tenant)
     // ==========================================================================
     if (url.pathname === '/mcp' && request.method === 'POST') {
-      // Parse tenant credentials from request headers
-      const credentials = parseTenantCredentials(request);
+      // Resolve tenant credentials from request headers or stored OAuth tokens
+      const credentials = await resolveTenantCredentials(request, env);
 
       // Validate credentials are present
       try {
@@ -118,7 +331,7 @@ export default {
           JSON.stringify({
             error: 'Unauthorized',
             message: error instanceof Error ? error.message : 'Invalid credentials',
-            required_headers: ['X-Gusto-Access-Token'],
+            required_headers: ['X-Gusto-Access-Token', 'Authorization: Bearer <server key>'],
           }),
           {
             status: 401,
@@ -128,7 +341,7 @@ export default {
       }
 
       // Create server with tenant-specific credentials
-      const server = createStatelessServer(credentials);
+      const server = createStatelessServer(credentials, env, parseToolPolicy(request));
 
       // Import and use createMcpHandler for streamable HTTP
       const { createMcpHandler } = await import('agents/mcp');
@@ -136,11 +349,49 @@ export default {
       return handler(request, env, ctx);
     }
 
-    // SSE endpoint for legacy clients
-    if (url.pathname === '/sse') {
-      return new Response('SSE endpoint requires Durable Objects. Enable in wrangler.jsonc.', {
-        status: 501,
-      });
+    // ==========================================================================
+    // Stateful MCP over SSE (legacy clients, backed by Durable Objects)
+    // ==========================================================================
+    if (url.pathname === '/sse' || url.pathname.startsWith('/sse/')) {
+      if (!env.MCP_SESSIONS) {
+        return new Response('SSE endpoint requires Durable Objects. Enable in wrangler.jsonc.', {
+          status: 501,
+        });
+      }
+
+      // Credentials are required to open a session; follow-up messages reuse
+      // the credentials stored with the session.
+      const credentials = await resolveTenantCredentials(request, env);
+      if (url.pathname === '/sse' && request.method === 'GET') {
+        try {
+          validateCredentials(credentials);
+        } catch (error) {
+          return new Response(
+            JSON.stringify({
+              error: 'Unauthorized',
+              message: error instanceof Error ? error.message : 'Invalid credentials',
+              required_headers: ['X-Gusto-Access-Token', 'Authorization: Bearer <server key>'],
+            }),
+            {
+              status: 401,
+              headers: { 'Content-Type': 'application/json' },
+            }
+          );
+        }
+      }
+
+      if (credentials.accessToken) {
+        // Server-key tenants only persist the key; tokens are reloaded from KV
+        const props: GustoAgentProps = {
+          credentials: credentials.serverKey
+            ? { serverKey: credentials.serverKey, apiVersion: credentials.apiVersion }
+            : credentials,
+          policy: parseToolPolicy(request),
+        };
+        (ctx as { props: unknown }).props = props;
+      }
+
+      return GustoMcpAgent.serveSSE('/sse', { binding: 'MCP_SESSIONS' }).fetch(request, env, ctx);
     }
 
     // Default response
@@ -151,86 +402,30 @@ export default {
         description: 'Multi-tenant Gusto Embedded Payroll MCP Server',
         endpoints: {
           mcp: '/mcp (POST) - Streamable HTTP MCP endpoint',
+          sse: '/sse - Stateful SSE MCP endpoint (requires MCP_SESSIONS Durable Object)',
           health: '/health - Health check',
+          oauth: '/oauth/authorize, /oauth/callback, /oauth/token - Gusto OAuth flow',
+          webhooks: '/webhooks/gusto (POST) - Gusto webhook receiver (requires WEBHOOK_KV)',
         },
         authentication: {
           description: 'Pass tenant credentials via request headers',
           required_headers: {
             'X-Gusto-Access-Token': 'OAuth 2.0 access token for Gusto API',
+            Authorization: 'Bearer <server key> issued by /oauth/token (alternative)',
           },
           optional_headers: {
             'X-Gusto-API-Version': 'Override the default API version',
+            'X-Gusto-Refresh-Token': 'Refresh token used when the access token expires',
+            'X-Gusto-Client-Id': 'OAuth client ID for refresh (defaults to GUSTO_CLIENT_ID)',
+            'X-Gusto-Client-Secret':
+              'OAuth client secret for refresh (defaults to GUSTO_CLIENT_SECRET)',
+            'X-Gusto-Mode': 'Set to "read-only" to hide every mutating tool',
+            'X-Gusto-Tool-Allowlist': 'Comma-separated tool names or categories to expose',
+            'X-Gusto-Tool-Denylist': 'Comma-separated tool names or categories to hide',
           },
         },
-        tools: [
-          'gusto_test_connection',
-          'gusto_get_token_info',
-          'gusto_get_company',
-          'gusto_list_locations',
-          'gusto_create_location',
-          'gusto_list_departments',
-          'gusto_create_department',
-          'gusto_list_admins',
-          'gusto_list_signatories',
-          'gusto_list_company_bank_accounts',
-          'gusto_list_employees',
-          'gusto_get_employee',
-          'gusto_create_employee',
-          'gusto_update_employee',
-          'gusto_get_employee_onboarding_status',
-          'gusto_list_jobs',
-          'gusto_create_job',
-          'gusto_list_compensations',
-          'gusto_create_compensation',
-          'gusto_list_home_addresses',
-          'gusto_create_home_address',
-          'gusto_get_federal_taxes',
-          'gusto_get_state_taxes',
-          'gusto_list_employee_bank_accounts',
-          'gusto_get_employee_payment_method',
-          'gusto_list_terminations',
-          'gusto_create_termination',
-          'gusto_list_garnishments',
-          'gusto_create_garnishment',
-          'gusto_list_employee_forms',
-          'gusto_list_recurring_reimbursements',
-          'gusto_create_recurring_reimbursement',
-          'gusto_list_contractors',
-          'gusto_get_contractor',
-          'gusto_create_contractor',
-          'gusto_update_contractor',
-          'gusto_delete_contractor',
-          'gusto_list_contractor_payments',
-          'gusto_create_contractor_payment',
-          'gusto_list_contractor_bank_accounts',
-          'gusto_list_contractor_forms',
-          'gusto_list_payrolls',
-          'gusto_get_payroll',
-          'gusto_calculate_payroll',
-          'gusto_submit_payroll',
-          'gusto_create_off_cycle_payroll',
-          'gusto_list_pay_schedules',
-          'gusto_create_pay_schedule',
-          'gusto_list_pay_periods',
-          'gusto_list_earning_types',
-          'gusto_create_earning_type',
-          'gusto_list_company_forms',
-          'gusto_list_notifications',
-          'gusto_list_supported_benefits',
-          'gusto_list_company_benefits',
-          'gusto_create_company_benefit',
-          'gusto_list_employee_benefits',
-          'gusto_create_employee_benefit',
-          'gusto_list_time_off_policies',
-          'gusto_get_time_off_policy',
-          'gusto_create_time_off_policy',
-          'gusto_add_employees_to_time_off_policy',
-          'gusto_get_holiday_pay_policy',
-          'gusto_list_webhook_subscriptions',
-          'gusto_create_webhook_subscription',
-          'gusto_delete_webhook_subscription',
-          'gusto_list_events',
-        ],
+        tools: TOOL_NAMES,
+        resources: Object.values(RESOURCE_TEMPLATES),
       }),
       {
         headers: { 'Content-Type': 'application/json' },
@@ -0,0 +1,46 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { describe, expect, it } from 'vitest';
+import type { ToolPolicy } from '../tools/policy.js';
+import { registerGustoPrompts } from './index.js';
+
+/**
+ * Names of the prompts registered under a policy
+ */
+function registeredPrompts(policy?: ToolPolicy): string[] {
+  const prompts: string[] = [];
+  const server = {
+    registerPrompt: (name: string) => {
+      prompts.push(name);
+    },
+  };
+  registerGustoPrompts(server as unknown as McpServer, policy);
+  return prompts;
+}
+
+describe('registerGustoPrompts', () => {
+  it('registers every prompt without a policy', () => {
+    expect(registeredPrompts()).toEqual([
+      'onboard_new_hire',
+      'run_payroll',
+      'offboard_employee',
+      'pay_contractors',
+      'explain_paycheck',
+    ]);
+  });
+
+  it('leaves out prompts that need write tools in read-only mode', () => {
+    expect(registeredPrompts({ readOnly: true })).toEqual(['explain_paycheck']);
+  });
+
+  it('leaves out prompts whose tools are denied', () => {
+    expect(registeredPrompts({ deny: ['payroll-write'] })).toEqual([
+      'onboard_new_hire',
+      'pay_contractors',
+      'explain_paycheck',
+    ]);
+  });
+
+  it('leaves out prompts whose tools are not allowed', () => {
+    expect(registeredPrompts({ allow: ['contractor'] })).toEqual(['pay_contractors']);
+  });
+});
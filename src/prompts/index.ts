@@ -0,0 +1,212 @@
+/**
+ * Gusto MCP Prompts
+ *
+ * Workflow prompts for common HR and payroll tasks. Each prompt spells out
+ * which tools to chain and which checks to run before anything that moves
+ * money or changes an employee's record.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { getToolGroup, isToolAllowed, type ToolPolicy } from '../tools/policy.js';
+
+/**
+ * A workflow prompt
+ */
+interface WorkflowPrompt {
+  name: string;
+  title: string;
+  description: string;
+  argsSchema: Record<string, z.ZodType<string> | z.ZodOptional<z.ZodType<string>>>;
+  /** Tools the workflow calls; the prompt is only registered when the policy allows all of them */
+  tools: string[];
+  build(args: Record<string, string | undefined>): string;
+}
+
+const PROMPTS: WorkflowPrompt[] = [
+  {
+    name: 'onboard_new_hire',
+    title: 'Onboard a new hire',
+    description:
+      'Create an employee with a job, pay rate and work address, then report what onboarding still needs.',
+    argsSchema: {
+      companyId: z.string().describe('Company UUID'),
+      firstName: z.string().describe('First name'),
+      lastName: z.string().describe('Last name'),
+      email: z.string().optional().describe('Email address (enables self-onboarding)'),
+      jobTitle: z.string().optional().describe('Job title'),
+      startDate: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+    },
+    tools: [
+      'gusto_get_company',
+      'gusto_list_employees',
+      'gusto_list_locations',
+      'gusto_create_employee',
+      'gusto_create_job',
+      'gusto_create_compensation',
+      'gusto_create_work_address',
+      'gusto_get_employee_onboarding_status',
+    ],
+    build(args) {
+      return `Onboard ${args.firstName} ${args.lastName} at company ${args.companyId}.
+
+1. Call gusto_get_company to confirm the company, then gusto_list_employees to make sure ${args.firstName} ${args.lastName} does not already exist.
+2. Call gusto_list_locations and ask me which location they will work from if there is more than one.
+3. Ask me for anything missing: ${args.jobTitle ? '' : 'job title, '}${args.startDate ? '' : 'start date, '}pay rate, payment unit (Hour, Year, ...) and FLSA status. Do not guess pay.
+4. Call gusto_create_employee${args.email ? ` with email ${args.email} and selfOnboarding: true, so they enter their own SSN, tax and bank details` : ''}. Never invent an SSN or date of birth.
+5. Call gusto_create_job (title${args.jobTitle ? ` "${args.jobTitle}"` : ''}, locationUuid, hireDate${args.startDate ? ` ${args.startDate}` : ''}), then gusto_create_compensation for that job with the rate I confirmed.
+6. Call gusto_create_work_address with the chosen location.
+7. Call gusto_get_employee_onboarding_status and list every required step that is not completed, saying who has to do it.
+
+Show me the employee, job and compensation you are about to create and wait for my approval before step 4.`;
+    },
+  },
+  {
+    name: 'run_payroll',
+    title: "Run this period's payroll",
+    description:
+      'Check readiness, enter hours, review the calculated payroll and submit it after approval.',
+    argsSchema: {
+      companyId: z.string().describe('Company UUID'),
+      payScheduleId: z.string().optional().describe('Pay schedule UUID (default: all schedules)'),
+    },
+    tools: [
+      'gusto_check_payroll_readiness',
+      'gusto_get_payroll',
+      'gusto_run_payroll',
+      'gusto_get_payroll_receipt',
+    ],
+    build(args) {
+      return `Run the next regular payroll for company ${args.companyId}${args.payScheduleId ? ` on pay schedule ${args.payScheduleId}` : ''}.
+
+1. Call gusto_check_payroll_readiness${args.payScheduleId ? ` with payScheduleId ${args.payScheduleId}` : ''}. If anything is action_required, stop and show me the checklist with the suggested actions.
+2. Call gusto_get_payroll for the payroll it found and ask me for hours, overtime, bonuses and reimbursements. Point out hourly employees with no hours entered.
+3. Call gusto_run_payroll without confirmationToken, passing payrollId and the hours and pay I gave you as employees.
+   - status calculating: call it again with the same arguments.
+   - status blocked: show me the blockers and stop.
+4. Show me the preview: pay period, check date, debit date, payroll deadline, totals, the changes made and each employee's gross and net pay. Flag anything unusual, such as net pay of zero or a big change from the previous payroll.
+5. Only after I explicitly approve, call gusto_run_payroll again with the same arguments and the confirmationToken. Never submit without my approval; if the token is rejected, start again from step 3.
+6. Call gusto_get_payroll_receipt and summarize what will be debited and when.`;
+    },
+  },
+  {
+    name: 'offboard_employee',
+    title: 'Offboard an employee with final paycheck',
+    description:
+      'Terminate an employee, review benefits and pay their final paycheck through an off-cycle payroll.',
+    argsSchema: {
+      companyId: z.string().describe('Company UUID'),
+      employeeId: z.string().describe('Employee UUID'),
+      lastDay: z.string().describe('Last day of work (YYYY-MM-DD)'),
+      finalCheckDate: z
+        .string()
+        .optional()
+        .describe('Check date for the final paycheck (YYYY-MM-DD)'),
+    },
+    tools: [
+      'gusto_get_employee',
+      'gusto_list_jobs',
+      'gusto_list_time_off_activities',
+      'gusto_list_employee_benefits',
+      'gusto_list_recurring_reimbursements',
+      'gusto_list_pay_periods',
+      'gusto_create_termination',
+      'gusto_create_off_cycle_payroll',
+      'gusto_update_payroll',
+      'gusto_submit_payroll',
+    ],
+    build(args) {
+      return `Offboard employee ${args.employeeId} at company ${args.companyId}; their last day is ${args.lastDay}.
+
+1. Call gusto_get_employee and gusto_list_jobs to confirm who this is and how they are paid. Show me the name before going further.
+2. Call gusto_list_time_off_activities to find unused vacation, and ask me whether it is paid out (state law may require it).
+3. Call gusto_list_employee_benefits and gusto_list_recurring_reimbursements and list what should end with the termination. Do not delete anything without my approval.
+4. Call gusto_list_pay_periods around ${args.lastDay} and tell me whether the final hours fall in an unprocessed regular payroll.
+5. After I approve, call gusto_create_termination with effectiveDate ${args.lastDay}.
+6. For the final paycheck, call gusto_create_off_cycle_payroll with offCycleReason "Dismissed Employee", employeeUuids [${args.employeeId}] and checkDate ${args.finalCheckDate ?? '(ask me; final pay deadlines depend on the state)'}. Review the preview with me, then confirm it with the confirmationToken.
+7. Enter the final hours and any vacation payout with gusto_update_payroll, then submit with gusto_submit_payroll. Its first call returns a preview: show me the net pay and debit date and wait for my approval before confirming.`;
+    },
+  },
+  {
+    name: 'pay_contractors',
+    title: 'Pay contractors for the month',
+    description: 'Pay each active contractor for a month without paying anyone twice.',
+    argsSchema: {
+      companyId: z.string().describe('Company UUID'),
+      month: z.string().describe('Month to pay (YYYY-MM)'),
+      paymentDate: z.string().optional().describe('Payment date (YYYY-MM-DD)'),
+    },
+    tools: [
+      'gusto_list_contractors',
+      'gusto_get_contractor_onboarding_status',
+      'gusto_list_contractor_payments',
+      'gusto_list_contractor_bank_accounts',
+      'gusto_create_contractor_payment',
+    ],
+    build(args) {
+      return `Pay the contractors of company ${args.companyId} for ${args.month}.
+
+1. Call gusto_list_contractors with all: true and keep the active ones.
+2. Call gusto_list_contractor_payments for ${args.month} (startDate and endDate covering the month). Anyone already paid for ${args.month} is skipped unless I say otherwise.
+3. For each remaining contractor, call gusto_get_contractor_onboarding_status; contractors who have not finished onboarding cannot be paid. For direct deposit, check gusto_list_contractor_bank_accounts has an account.
+4. Ask me for each contractor's amount (wage, or hours for hourly contractors, plus bonus and reimbursement). Do not reuse last month's amounts without asking.
+5. Call gusto_create_contractor_payment without confirmationToken for each contractor with date ${args.paymentDate ?? '(ask me)'}, and show me one table of every preview with the total.
+6. Only after I approve the table, confirm each payment with its confirmationToken. Report any that fail, and do not retry a payment that may have gone through.`;
+    },
+  },
+  {
+    name: 'explain_paycheck',
+    title: 'Explain a paycheck',
+    description: "Walk through an employee's pay stub from gross pay to net pay.",
+    argsSchema: {
+      companyId: z.string().describe('Company UUID'),
+      employeeId: z.string().describe('Employee UUID'),
+      payrollId: z.string().optional().describe('Payroll UUID (default: the latest pay stub)'),
+    },
+    tools: [
+      'gusto_list_employee_pay_stubs',
+      'gusto_get_pay_stub',
+      'gusto_list_jobs',
+      'gusto_list_compensations',
+      'gusto_get_federal_taxes',
+      'gusto_get_state_taxes',
+      'gusto_list_employee_benefits',
+    ],
+    build(args) {
+      return `Explain a paycheck for employee ${args.employeeId} at company ${args.companyId}. This is read-only; do not change anything.
+
+1. ${args.payrollId ? `Use payroll ${args.payrollId}.` : 'Call gusto_list_employee_pay_stubs and use the latest pay stub.'} Keep the previous pay stub for comparison.
+2. Call gusto_get_pay_stub with format markdown for that payroll (and for the previous one).
+3. Call gusto_list_jobs and gusto_list_compensations to confirm the pay rate behind the earnings.
+4. Call gusto_get_federal_taxes and gusto_get_state_taxes to explain the withholding (filing status, allowances, extra withholding).
+5. Call gusto_list_employee_benefits to match each deduction to a benefit.
+
+Explain in plain language: gross pay and how it was earned, each tax, each deduction, and net pay. Point out what changed since the previous paycheck and why. Say so if something cannot be explained from the data.`;
+    },
+  },
+];
+
+/**
+ * Register the workflow prompts whose tools the policy allows. A prompt
+ * referring to a tool that read-only mode or the allow and deny lists left
+ * out is not registered either.
+ */
+export function registerGustoPrompts(server: McpServer, policy: ToolPolicy = {}): void {
+  const allowed = (name: string) => {
+    const group = getToolGroup(name);
+    return group !== undefined && isToolAllowed(policy, name, group);
+  };
+
+  for (const prompt of PROMPTS) {
+    if (!prompt.tools.every(allowed)) {
+      continue;
+    }
+    server.registerPrompt(
+      prompt.name,
+      { title: prompt.title, description: prompt.description, argsSchema: prompt.argsSchema },
+      (args: Record<string, string | undefined>) => ({
+        messages: [{ role: 'user', content: { type: 'text', text: prompt.build(args) } }],
+      })
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { describe, expect, it } from 'vitest';
+import type { GustoClient } from '../client.js';
+import type { ToolPolicy } from '../tools/policy.js';
+import type { Env } from '../types/env.js';
+import { registerGustoResources } from './index.js';
+
+type ReadCallback = (
+  uri: URL,
+  variables: Record<string, string>
+) => Promise<{ contents: { text: string }[] }>;
+
+/**
+ * Server that records registered resources and their read callbacks
+ */
+function registerResources(client: GustoClient, characterLimit: number, policy?: ToolPolicy) {
+  const resources = new Map<string, ReadCallback>();
+  const server = {
+    registerResource: (
+      name: string,
+      _template: unknown,
+      _metadata: unknown,
+      read: ReadCallback
+    ) => {
+      resources.set(name, read);
+    },
+  };
+  registerGustoResources(
+    server as unknown as McpServer,
+    client,
+    { CHARACTER_LIMIT: String(characterLimit) } as Env,
+    policy
+  );
+  return resources;
+}
+
+describe('registerGustoResources', () => {
+  it('registers every resource by default', () => {
+    const resources = registerResources({} as GustoClient, 50_000);
+
+    expect([...resources.keys()]).toEqual(['company', 'employee', 'payroll', 'pay_schedules']);
+  });
+
+  it('skips resources whose tools the policy hides', () => {
+    const resources = registerResources({} as GustoClient, 50_000, { deny: ['payroll'] });
+
+    expect([...resources.keys()]).toEqual(['company', 'employee']);
+  });
+
+  it('truncates contents to CHARACTER_LIMIT', async () => {
+    const payroll = {
+      uuid: 'p1',
+      employeeCompensations: Array.from({ length: 200 }, (_, i) => ({
+        employeeUuid: `employee-${i}`,
+        grossPay: '1000.00',
+      })),
+    };
+    const client = { getPayroll: async () => payroll } as unknown as GustoClient;
+    const read = registerResources(client, 2000).get('payroll') as ReadCallback;
+
+    const result = await read(new URL('gusto://companies/c1/payrolls/p1'), {
+      companyId: 'c1',
+      payrollId: 'p1',
+    });
+
+    expect(result.contents[0].text.length).toBeLessThanOrEqual(2000);
+  });
+});
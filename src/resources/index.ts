@@ -0,0 +1,195 @@
+/**
+ * Gusto MCP Resources
+ *
+ * Exposes companies, employees, payrolls and pay schedules as resources, so
+ * clients can attach records as context instead of having the model call
+ * tools to reread them. Each resource follows the tool that returns the same
+ * record: it is only registered when the tool policy allows that tool, and
+ * its contents are truncated to CHARACTER_LIMIT like the tool's response.
+ *
+ * In stateful sessions clients can also subscribe to a resource. It is
+ * reported as updated whenever a write tool in the same session succeeds
+ * for the company, employee or payroll it was read from.
+ */
+
+import { type McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { UriTemplate, type Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { GustoClient } from '../client.js';
+import { getToolAccess, isToolAllowed, type ToolGroup, type ToolPolicy } from '../tools/policy.js';
+import { type Env, getCharacterLimit } from '../types/env.js';
+import { type ToolResponse, truncateResponse } from '../utils/formatters.js';
+
+/**
+ * URI templates of the registered resources. Variables are named like the
+ * tool arguments that identify the same records.
+ */
+export const RESOURCE_TEMPLATES = {
+  company: 'gusto://companies/{companyId}',
+  employee: 'gusto://employees/{employeeId}',
+  payroll: 'gusto://companies/{companyId}/payrolls/{payrollId}',
+  paySchedules: 'gusto://companies/{companyId}/pay_schedules',
+};
+
+/**
+ * Register the Gusto resources whose tools the policy allows
+ */
+export function registerGustoResources(
+  server: McpServer,
+  client: GustoClient,
+  env: Env,
+  policy: ToolPolicy = {}
+): void {
+  const characterLimit = getCharacterLimit(env);
+  const allowed = (toolName: string, group: ToolGroup) => isToolAllowed(policy, toolName, group);
+  const jsonContents = (uri: URL, data: unknown) => toJsonContents(uri, data, characterLimit);
+
+  if (allowed('gusto_get_company', 'company')) {
+    server.registerResource(
+      'company',
+      new ResourceTemplate(RESOURCE_TEMPLATES.company, { list: undefined }),
+      {
+        title: 'Gusto company',
+        description: 'Company details, as returned by gusto_get_company',
+        mimeType: 'application/json',
+      },
+      async (uri, variables) =>
+        jsonContents(uri, await client.getCompany(getVariable(variables, 'companyId')))
+    );
+  }
+
+  if (allowed('gusto_get_employee', 'employee')) {
+    server.registerResource(
+      'employee',
+      new ResourceTemplate(RESOURCE_TEMPLATES.employee, { list: undefined }),
+      {
+        title: 'Gusto employee',
+        description: 'Employee details, as returned by gusto_get_employee',
+        mimeType: 'application/json',
+      },
+      async (uri, variables) =>
+        jsonContents(uri, await client.getEmployee(getVariable(variables, 'employeeId')))
+    );
+  }
+
+  if (allowed('gusto_get_payroll', 'payroll')) {
+    server.registerResource(
+      'payroll',
+      new ResourceTemplate(RESOURCE_TEMPLATES.payroll, { list: undefined }),
+      {
+        title: 'Gusto payroll',
+        description: 'Payroll with its employee compensations, as returned by gusto_get_payroll',
+        mimeType: 'application/json',
+      },
+      async (uri, variables) =>
+        jsonContents(
+          uri,
+          await client.getPayroll(
+            getVariable(variables, 'companyId'),
+            getVariable(variables, 'payrollId')
+          )
+        )
+    );
+  }
+
+  if (allowed('gusto_list_pay_schedules', 'payroll')) {
+    server.registerResource(
+      'pay_schedules',
+      new ResourceTemplate(RESOURCE_TEMPLATES.paySchedules, { list: undefined }),
+      {
+        title: 'Gusto pay schedules',
+        description: "A company's pay schedules, as returned by gusto_list_pay_schedules",
+        mimeType: 'application/json',
+      },
+      async (uri, variables) =>
+        jsonContents(uri, await client.listPaySchedules(getVariable(variables, 'companyId')))
+    );
+  }
+}
+
+/**
+ * Accept resource subscriptions and wrap the server so that, after a write
+ * tool succeeds, subscribers of the resources it may have changed are
+ * notified. Only useful for sessions that outlive a single request.
+ */
+export function trackResourceUpdates(server: McpServer): McpServer {
+  const subscriptions = new Set<string>();
+  const templates = Object.values(RESOURCE_TEMPLATES).map((template) => new UriTemplate(template));
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const notify = async (toolArgs: Record<string, unknown>) => {
+    for (const uri of subscriptions) {
+      const variables = templates.map((template) => template.match(uri)).find(Boolean);
+      if (variables && isAffected(variables, toolArgs)) {
+        await server.server.sendResourceUpdated({ uri });
+      }
+    }
+  };
+
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop === 'tool' || prop === 'registerTool') {
+        const register = Reflect.get(target, prop, receiver) as (...args: unknown[]) => unknown;
+        return (name: string, ...rest: unknown[]) => {
+          const handler = rest[rest.length - 1];
+          if (typeof handler === 'function' && getToolAccess(name) === 'write') {
+            rest[rest.length - 1] = async (...handlerArgs: unknown[]) => {
+              const result = (await handler(...handlerArgs)) as ToolResponse;
+              if (!result.isError && subscriptions.size > 0) {
+                await notify((handlerArgs[0] ?? {}) as Record<string, unknown>);
+              }
+              return result;
+            };
+          }
+          return register.call(target, name, ...rest);
+        };
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+}
+
+/**
+ * A resource may have changed if the tool was called with every id in its
+ * URI, ignoring a payroll id the tool was not given (e.g. run_payroll)
+ */
+function isAffected(variables: Variables, toolArgs: Record<string, unknown>): boolean {
+  return Object.entries(variables).every(
+    ([name, value]) =>
+      toolArgs[name] === value || (name === 'payrollId' && toolArgs[name] === undefined)
+  );
+}
+
+function getVariable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Resource contents for a record, truncated like the matching tool response
+ */
+function toJsonContents(uri: URL, data: unknown, characterLimit: number) {
+  const response = truncateResponse(
+    { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] },
+    characterLimit
+  );
+  return {
+    contents: response.content.map((item) => ({
+      uri: uri.href,
+      mimeType: 'application/json',
+      text: item.type === 'text' ? item.text : '',
+    })),
+  };
+}
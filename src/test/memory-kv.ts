@@ -0,0 +1,28 @@
+/**
+ * In-memory KVNamespace for tests
+ *
+ * Covers the get/put/delete/list calls the stores make. Expiration options
+ * are ignored; metadata is kept so list() can return it.
+ */
+
+export function createMemoryKv(): KVNamespace {
+  const entries = new Map<string, { value: string; metadata?: unknown }>();
+  return {
+    async get(key: string, type?: string) {
+      const value = entries.get(key)?.value ?? null;
+      return value !== null && type === 'json' ? JSON.parse(value) : value;
+    },
+    async put(key: string, value: string, options?: { metadata?: unknown }) {
+      entries.set(key, { value, metadata: options?.metadata });
+    },
+    async delete(key: string) {
+      entries.delete(key);
+    },
+    async list(options?: { prefix?: string }) {
+      const keys = [...entries.entries()]
+        .filter(([name]) => name.startsWith(options?.prefix ?? ''))
+        .map(([name, entry]) => ({ name, metadata: entry.metadata }));
+      return { keys, list_complete: true, cacheStatus: null };
+    },
+  } as unknown as KVNamespace;
+}
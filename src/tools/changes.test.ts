@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { GustoClient } from '../client.js';
+import type { GustoEvent } from '../types/entities.js';
+import { type EventCursorStore, type PollChangesOptions, pollChanges } from './changes.js';
+
+function createEvents(count: number): GustoEvent[] {
+  return Array.from({ length: count }, (_, i) => ({
+    uuid: `event-${i + 1}`,
+    eventType: 'employee.updated',
+    entityType: 'Employee',
+    entityUuid: `employee-${i + 1}`,
+  }));
+}
+
+function createCursors(): EventCursorStore & { values: Map<string, string> } {
+  const values = new Map<string, string>();
+  return {
+    values,
+    get: async (name) => values.get(name),
+    set: async (name, eventUuid) => {
+      values.set(name, eventUuid);
+    },
+  };
+}
+
+const OPTIONS: PollChangesOptions = {
+  cursorName: 'default',
+  limit: 100,
+  hydrate: false,
+  advance: true,
+};
+
+describe('pollChanges', () => {
+  it('moves the cursor to the last event read', async () => {
+    const client = { listEvents: async () => createEvents(3) } as unknown as GustoClient;
+    const cursors = createCursors();
+
+    const feed = await pollChanges(client, cursors, OPTIONS);
+
+    expect(feed.eventCount).toBe(3);
+    expect(feed.hasMore).toBe(false);
+    expect(cursors.values.get('default')).toBe('event-3');
+  });
+
+  it('only moves the cursor past the events that fit in maxChars', async () => {
+    const client = { listEvents: async () => createEvents(50) } as unknown as GustoClient;
+    const cursors = createCursors();
+
+    const feed = await pollChanges(client, cursors, { ...OPTIONS, maxChars: 2000 });
+
+    expect(JSON.stringify(feed, null, 2).length).toBeLessThanOrEqual(2000);
+    expect(feed.eventCount).toBeLessThan(50);
+    expect(feed.hasMore).toBe(true);
+    expect(cursors.values.get('default')).toBe(`event-${feed.eventCount}`);
+    expect(feed.changes.Employee.at(-1)?.eventUuid).toBe(`event-${feed.eventCount}`);
+  });
+
+  it('returns an oversized record without its body so the cursor still moves', async () => {
+    const client = {
+      listEvents: async () => createEvents(2),
+      getEmployee: async () => ({ notes: 'x'.repeat(5000) }),
+    } as unknown as GustoClient;
+    const cursors = createCursors();
+
+    const feed = await pollChanges(client, cursors, { ...OPTIONS, hydrate: true, maxChars: 1000 });
+
+    expect(feed.eventCount).toBe(1);
+    expect(feed.changes.Employee[0]).toMatchObject({ hydrationError: expect.any(String) });
+    expect(cursors.values.get('default')).toBe('event-1');
+  });
+});
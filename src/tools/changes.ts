@@ -0,0 +1,245 @@
+/**
+ * Change Feed
+ *
+ * Reads the Gusto event stream from where the last poll stopped, groups the
+ * new events by resource type and optionally fetches the current state of
+ * each record they refer to. When the feed would not fit the response size
+ * limit, the latest events are left for the next poll and the cursor only
+ * moves past the events returned.
+ */
+
+import type { GustoClient } from '../client.js';
+import type { GustoEvent } from '../types/entities.js';
+import { ValidationError } from '../utils/errors.js';
+
+/**
+ * Remembers the last event read, per cursor name
+ */
+export interface EventCursorStore {
+  get(name: string): Promise<string | undefined>;
+  set(name: string, eventUuid: string): Promise<void>;
+}
+
+/**
+ * Options for one poll
+ */
+export interface PollChangesOptions {
+  /** Cursor to read from and advance */
+  cursorName: string;
+  /** Read after this event instead of the stored cursor */
+  startingAfterUuid?: string;
+  /** Only read events for this resource type */
+  resourceType?: string;
+  /** Only return these event types (the cursor still moves past the others) */
+  eventTypes?: string[];
+  limit: number;
+  /** Fetch the record each event refers to */
+  hydrate: boolean;
+  /** Store the new cursor position */
+  advance: boolean;
+  /** Largest feed, in characters of indented JSON, to return */
+  maxChars?: number;
+}
+
+/**
+ * One changed record
+ */
+export interface ChangeEntry {
+  eventUuid: string;
+  eventType?: string;
+  /** UUID of the changed record */
+  uuid?: string;
+  companyUuid?: string;
+  timestamp?: string;
+  record?: unknown;
+  hydrationError?: string;
+}
+
+/**
+ * Result of a poll
+ */
+export interface ChangeFeed {
+  cursor: {
+    name: string;
+    startedAfter?: string;
+    next?: string;
+    /** Whether `next` was stored for the following poll */
+    stored: boolean;
+  };
+  eventCount: number;
+  /** More events may be waiting; poll again */
+  hasMore: boolean;
+  /** Changes grouped by resource type */
+  changes: Record<string, ChangeEntry[]>;
+}
+
+/**
+ * How many records are fetched at once when hydrating
+ */
+const HYDRATION_BATCH_SIZE = 5;
+
+type Hydrator = (client: GustoClient, uuid: string, event: GustoEvent) => Promise<unknown>;
+
+/**
+ * Fetchers by normalized resource type (lowercase, no underscores)
+ */
+const HYDRATORS: Record<string, Hydrator> = {
+  company: (client, uuid) => client.getCompany(uuid),
+  location: (client, uuid) => client.getLocation(uuid),
+  department: (client, uuid) => client.getDepartment(uuid),
+  employee: (client, uuid) => client.getEmployee(uuid),
+  job: (client, uuid) => client.getJob(uuid),
+  compensation: (client, uuid) => client.getCompensation(uuid),
+  garnishment: (client, uuid) => client.getGarnishment(uuid),
+  contractor: (client, uuid) => client.getContractor(uuid),
+  companybenefit: (client, uuid) => client.getCompanyBenefit(uuid),
+  employeebenefit: (client, uuid) => client.getEmployeeBenefit(uuid),
+  timeoffpolicy: (client, uuid) => client.getTimeOffPolicy(uuid),
+  payroll: (client, uuid, event) => client.getPayroll(requireCompany(event), uuid),
+  payschedule: (client, uuid, event) => client.getPaySchedule(requireCompany(event), uuid),
+  externalpayroll: (client, uuid, event) => client.getExternalPayroll(requireCompany(event), uuid),
+};
+
+/**
+ * Read the events after the cursor and group them by resource type
+ */
+export async function pollChanges(
+  client: GustoClient,
+  cursors: EventCursorStore | undefined,
+  options: PollChangesOptions
+): Promise<ChangeFeed> {
+  const startedAfter = options.startingAfterUuid ?? (await cursors?.get(options.cursorName));
+  const events = await client.listEvents({
+    startingAfterUuid: startedAfter,
+    resourceType: options.resourceType,
+    limit: options.limit,
+  });
+
+  const selected = options.eventTypes?.length
+    ? events.filter((event) => event.eventType && options.eventTypes?.includes(event.eventType))
+    : events;
+
+  const entries = new Map<GustoEvent, { type: string; entry: ChangeEntry }>();
+  for (const event of selected) {
+    entries.set(event, {
+      type: getRecordType(event),
+      entry: {
+        eventUuid: event.uuid,
+        eventType: event.eventType,
+        uuid: event.entityUuid ?? event.resourceUuid,
+        companyUuid: event.companyUuid,
+        timestamp: event.timestamp,
+      },
+    });
+  }
+
+  if (options.hydrate) {
+    await hydrateChanges(client, selected, [...entries.values()]);
+  }
+
+  // Return the longest run of events that fits, always at least one so the
+  // cursor keeps moving even past an oversized record
+  const buildFeed = (count: number): ChangeFeed => {
+    const returned = events.slice(0, count);
+    const changes: Record<string, ChangeEntry[]> = {};
+    for (const event of returned) {
+      const change = entries.get(event);
+      if (change) {
+        changes[change.type] ??= [];
+        changes[change.type].push(change.entry);
+      }
+    }
+    return {
+      cursor: {
+        name: options.cursorName,
+        startedAfter,
+        next: count > 0 ? returned[count - 1].uuid : startedAfter,
+        stored: false,
+      },
+      eventCount: returned.filter((event) => entries.has(event)).length,
+      hasMore: count < events.length || events.length === options.limit,
+      changes,
+    };
+  };
+
+  let count = events.length;
+  let feed = buildFeed(count);
+  while (options.maxChars && count > 1 && JSON.stringify(feed, null, 2).length > options.maxChars) {
+    count -= 1;
+    feed = buildFeed(count);
+  }
+  if (options.maxChars && JSON.stringify(feed, null, 2).length > options.maxChars) {
+    for (const { entry } of entries.values()) {
+      if (entry.record !== undefined) {
+        entry.record = undefined;
+        entry.hydrationError = 'Record too large to return; fetch it directly';
+      }
+    }
+    feed = buildFeed(count);
+  }
+
+  const next = feed.cursor.next;
+  if (cursors && options.advance && next && next !== startedAfter) {
+    await cursors.set(options.cursorName, next);
+    feed.cursor.stored = true;
+  }
+  return feed;
+}
+
+/**
+ * Fetch each changed record once and attach it to all of its entries
+ */
+async function hydrateChanges(
+  client: GustoClient,
+  events: GustoEvent[],
+  changes: { type: string; entry: ChangeEntry }[]
+): Promise<void> {
+  const targets = new Map<string, { type: string; uuid: string; event: GustoEvent }>();
+  for (const event of events) {
+    const type = getRecordType(event);
+    const uuid = event.entityUuid ?? event.resourceUuid;
+    if (uuid && !targets.has(`${type}:${uuid}`)) {
+      targets.set(`${type}:${uuid}`, { type, uuid, event });
+    }
+  }
+
+  const results = new Map<string, { record?: unknown; hydrationError?: string }>();
+  const pending = [...targets.entries()];
+  for (let i = 0; i < pending.length; i += HYDRATION_BATCH_SIZE) {
+    await Promise.all(
+      pending.slice(i, i + HYDRATION_BATCH_SIZE).map(async ([key, { type, uuid, event }]) => {
+        const hydrator = HYDRATORS[type.replace(/_/g, '').toLowerCase()];
+        if (!hydrator) {
+          results.set(key, { hydrationError: `Records of type ${type} cannot be fetched` });
+          return;
+        }
+        try {
+          results.set(key, { record: await hydrator(client, uuid, event) });
+        } catch (error) {
+          results.set(key, {
+            hydrationError: error instanceof Error ? error.message : 'Fetch failed',
+          });
+        }
+      })
+    );
+  }
+
+  for (const { type, entry } of changes) {
+    Object.assign(entry, results.get(`${type}:${entry.uuid}`));
+  }
+}
+
+/**
+ * Type of the record an event is about, e.g. `Employee` for an
+ * `employee.updated` event on a Company resource
+ */
+function getRecordType(event: GustoEvent): string {
+  return event.entityType ?? event.resourceType ?? event.eventType?.split('.')[0] ?? 'Unknown';
+}
+
+function requireCompany(event: GustoEvent): string {
+  if (!event.companyUuid) {
+    throw new ValidationError('Event has no company UUID');
+  }
+  return event.companyUuid;
+}
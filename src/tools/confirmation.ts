@@ -0,0 +1,85 @@
+/**
+ * Confirmation Guard
+ *
+ * Wraps money-moving tools in a preview → confirm flow. Called without a
+ * confirmation token, a guarded tool returns a preview and a token; called
+ * again with the token, it performs the action if nothing has changed.
+ */
+
+import type { Payroll } from '../types/entities.js';
+import {
+  type ConfirmationScope,
+  createConfirmationToken,
+  createMemoryNonceStore,
+  type UsedNonceStore,
+  verifyConfirmationToken,
+} from '../utils/confirmation.js';
+import { ValidationError } from '../utils/errors.js';
+import { formatConfirmationRequest, type ToolResponse } from '../utils/formatters.js';
+
+/**
+ * A guarded action
+ */
+export interface GuardedAction {
+  /** HMAC secret for confirmation tokens */
+  secret?: string;
+  /** Where redeemed tokens are recorded (defaults to this isolate's memory) */
+  usedNonces?: UsedNonceStore;
+  /** Tool name the caller must call again to confirm */
+  toolName: string;
+  /** Token supplied by the caller, if any */
+  confirmationToken?: string;
+  /** Build the scope from the current state of the resource */
+  scope: ConfirmationScope;
+  /** Build the preview shown before confirmation */
+  preview: () => unknown | Promise<unknown>;
+  /** Perform the action after a valid confirmation */
+  run: () => Promise<ToolResponse>;
+}
+
+/**
+ * Fallback for servers without a shared nonce store
+ */
+const localNonces = createMemoryNonceStore();
+
+/**
+ * Preview the action, or run it when a valid confirmation token is supplied
+ */
+export async function guardAction(action: GuardedAction): Promise<ToolResponse> {
+  if (!action.secret) {
+    throw new ValidationError('Confirmation is not configured on this server.');
+  }
+
+  if (!action.confirmationToken) {
+    const confirmation = await createConfirmationToken(action.secret, action.scope);
+    return formatConfirmationRequest(action.toolName, await action.preview(), confirmation);
+  }
+
+  await verifyConfirmationToken(
+    action.secret,
+    action.confirmationToken,
+    action.scope,
+    action.usedNonces ?? localNonces
+  );
+  return action.run();
+}
+
+/**
+ * Summarize a payroll for a confirmation preview
+ */
+export function buildPayrollPreview(payroll: Payroll): Record<string, unknown> {
+  const compensations = payroll.employeeCompensations ?? [];
+  return {
+    payrollId: payroll.uuid || payroll.payrollUuid,
+    payPeriod:
+      payroll.payPeriodStartDate && payroll.payPeriodEndDate
+        ? `${payroll.payPeriodStartDate} - ${payroll.payPeriodEndDate}`
+        : undefined,
+    checkDate: payroll.checkDate,
+    debitDate: payroll.debitDate,
+    payrollDeadline: payroll.payrollDeadline,
+    employeeCount: compensations.filter((ec) => !ec.excluded).length,
+    totals: payroll.totals,
+    version: payroll.version,
+  };
+}
@@ -0,0 +1,41 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { describe, expect, it } from 'vitest';
+import type { GustoClient } from '../client.js';
+import type { Env } from '../types/env.js';
+import { CLIENT_METHOD_TOOLS } from './coverage.js';
+import { registerGustoTools, type SessionContext } from './index.js';
+
+/**
+ * Server that only records the names of registered tools
+ */
+function createRecordingServer(): { server: McpServer; tools: Set<string> } {
+  const tools = new Set<string>();
+  const server = {
+    tool: (name: string) => {
+      tools.add(name);
+    },
+    registerTool: (name: string) => {
+      tools.add(name);
+    },
+  };
+  return { server: server as unknown as McpServer, tools };
+}
+
+const session: SessionContext = {
+  getActiveCompanyId: () => undefined,
+  setActiveCompanyId: () => {},
+  getPayrollVersions: () => ({}),
+  recordPayrollVersion: () => {},
+};
+
+describe('CLIENT_METHOD_TOOLS', () => {
+  it('names only tools that are registered', () => {
+    const { server, tools } = createRecordingServer();
+    registerGustoTools(server, {} as GustoClient, { CHARACTER_LIMIT: '50000' } as Env, {
+      session,
+    });
+
+    const missing = Object.values(CLIENT_METHOD_TOOLS).filter((name) => !tools.has(name));
+    expect(missing).toEqual([]);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Client Tool Coverage
+ *
+ * Maps every GustoClient method to the tool that exposes it. The map is typed
+ * by the client interface, so adding a client method without a tool (and an
+ * entry here) fails the type check.
+ */
+
+import type { GustoClient } from '../client.js';
+
+export const CLIENT_METHOD_TOOLS: Record<keyof GustoClient, `gusto_${string}`> = {
+  // Connection
+  testConnection: 'gusto_test_connection',
+  getTokenInfo: 'gusto_get_token_info',
+  getApiVersion: 'gusto_test_connection',
+
+  // Companies
+  getCompany: 'gusto_get_company',
+  updateCompany: 'gusto_update_company',
+  getCompanyFederalTaxDetails: 'gusto_get_company_federal_tax_details',
+  updateCompanyFederalTaxDetails: 'gusto_update_company_federal_tax_details',
+
+  // Locations
+  listLocations: 'gusto_list_locations',
+  getLocation: 'gusto_get_location',
+  createLocation: 'gusto_create_location',
+  updateLocation: 'gusto_update_location',
+
+  // Company Bank Accounts
+  listCompanyBankAccounts: 'gusto_list_company_bank_accounts',
+  createCompanyBankAccount: 'gusto_create_company_bank_account',
+
+  // Departments
+  listDepartments: 'gusto_list_departments',
+  getDepartment: 'gusto_get_department',
+  createDepartment: 'gusto_create_department',
+  updateDepartment: 'gusto_update_department',
+  deleteDepartment: 'gusto_delete_department',
+
+  // Admins
+  listAdmins: 'gusto_list_admins',
+  createAdmin: 'gusto_create_admin',
+
+  // Signatories
+  listSignatories: 'gusto_list_signatories',
+  createSignatory: 'gusto_create_signatory',
+
+  // Employees
+  listEmployees: 'gusto_list_employees',
+  getEmployee: 'gusto_get_employee',
+  createEmployee: 'gusto_create_employee',
+  updateEmployee: 'gusto_update_employee',
+  deleteOnboardingEmployee: 'gusto_delete_onboarding_employee',
+  getEmployeeOnboardingStatus: 'gusto_get_employee_onboarding_status',
+
+  // Jobs
+  listJobs: 'gusto_list_jobs',
+  getJob: 'gusto_get_job',
+  createJob: 'gusto_create_job',
+  updateJob: 'gusto_update_job',
+  deleteJob: 'gusto_delete_job',
+
+  // Compensations
+  listCompensations: 'gusto_list_compensations',
+  getCompensation: 'gusto_get_compensation',
+  createCompensation: 'gusto_create_compensation',
+  updateCompensation: 'gusto_update_compensation',
+
+  // Employee Addresses
+  listHomeAddresses: 'gusto_list_home_addresses',
+  createHomeAddress: 'gusto_create_home_address',
+  updateHomeAddress: 'gusto_update_home_address',
+  listWorkAddresses: 'gusto_list_work_addresses',
+  createWorkAddress: 'gusto_create_work_address',
+
+  // Terminations & Rehires
+  listTerminations: 'gusto_list_terminations',
+  createTermination: 'gusto_create_termination',
+  deleteTermination: 'gusto_delete_termination',
+  getRehire: 'gusto_get_rehire',
+  createRehire: 'gusto_create_rehire',
+
+  // Employee Taxes
+  getFederalTaxes: 'gusto_get_federal_taxes',
+  updateFederalTaxes: 'gusto_update_federal_taxes',
+  getStateTaxes: 'gusto_get_state_taxes',
+  updateStateTaxes: 'gusto_update_state_taxes',
+
+  // Employee Bank Accounts & Payment Method
+  listEmployeeBankAccounts: 'gusto_list_employee_bank_accounts',
+  createEmployeeBankAccount: 'gusto_create_employee_bank_account',
+  getEmployeePaymentMethod: 'gusto_get_employee_payment_method',
+  updateEmployeePaymentMethod: 'gusto_update_employee_payment_method',
+
+  // I-9 Authorization
+  getI9Authorization: 'gusto_get_i9_authorization',
+  updateI9Authorization: 'gusto_update_i9_authorization',
+  listI9DocumentOptions: 'gusto_list_i9_document_options',
+  listI9Documents: 'gusto_list_i9_documents',
+  updateI9Documents: 'gusto_update_i9_documents',
+  signI9EmployerSection: 'gusto_sign_i9_employer_section',
+
+  // Garnishments
+  listGarnishments: 'gusto_list_garnishments',
+  getGarnishment: 'gusto_get_garnishment',
+  createGarnishment: 'gusto_create_garnishment',
+  updateGarnishment: 'gusto_update_garnishment',
+
+  // Contractors
+  listContractors: 'gusto_list_contractors',
+  getContractor: 'gusto_get_contractor',
+  createContractor: 'gusto_create_contractor',
+  updateContractor: 'gusto_update_contractor',
+  deleteContractor: 'gusto_delete_contractor',
+  getContractorOnboardingStatus: 'gusto_get_contractor_onboarding_status',
+
+  // Contractor Bank Accounts
+  listContractorBankAccounts: 'gusto_list_contractor_bank_accounts',
+  createContractorBankAccount: 'gusto_create_contractor_bank_account',
+
+  // Contractor Payments
+  listContractorPayments: 'gusto_list_contractor_payments',
+  createContractorPayment: 'gusto_create_contractor_payment',
+  getContractorPaymentGroups: 'gusto_list_contractor_payment_groups',
+
+  // Payrolls
+  listPayrolls: 'gusto_list_payrolls',
+  getPayroll: 'gusto_get_payroll',
+  updatePayroll: 'gusto_update_payroll',
+  calculatePayroll: 'gusto_calculate_payroll',
+  submitPayroll: 'gusto_submit_payroll',
+  createOffCyclePayroll: 'gusto_create_off_cycle_payroll',
+  listPayrollBlockers: 'gusto_list_payroll_blockers',
+  cancelPayroll: 'gusto_cancel_payroll',
+  reversePayroll: 'gusto_reverse_payroll',
+  skipPayroll: 'gusto_skip_payroll',
+
+  // Pay Stubs & Receipts
+  getPayStub: 'gusto_get_pay_stub',
+  listEmployeePayStubs: 'gusto_list_employee_pay_stubs',
+  getPayrollReceipt: 'gusto_get_payroll_receipt',
+
+  // External Payrolls
+  listExternalPayrolls: 'gusto_list_external_payrolls',
+  getExternalPayroll: 'gusto_get_external_payroll',
+  createExternalPayroll: 'gusto_create_external_payroll',
+  updateExternalPayrollItems: 'gusto_update_external_payroll_items',
+  deleteExternalPayroll: 'gusto_delete_external_payroll',
+  calculateExternalPayrollTaxes: 'gusto_calculate_external_payroll_taxes',
+  getExternalPayrollTaxLiabilities: 'gusto_get_external_payroll_tax_liabilities',
+  updateExternalPayrollTaxLiabilities: 'gusto_update_external_payroll_tax_liabilities',
+  finishExternalPayrollTaxLiabilities: 'gusto_finish_external_payroll_tax_liabilities',
+
+  // Pay Schedules
+  listPaySchedules: 'gusto_list_pay_schedules',
+  getPaySchedule: 'gusto_get_pay_schedule',
+  createPaySchedule: 'gusto_create_pay_schedule',
+  getPayPeriods: 'gusto_list_pay_periods',
+
+  // Earning Types
+  listEarningTypes: 'gusto_list_earning_types',
+  createEarningType: 'gusto_create_earning_type',
+  updateEarningType: 'gusto_update_earning_type',
+  deactivateEarningType: 'gusto_deactivate_earning_type',
+
+  // Company Benefits
+  listCompanyBenefits: 'gusto_list_company_benefits',
+  getCompanyBenefit: 'gusto_get_company_benefit',
+  createCompanyBenefit: 'gusto_create_company_benefit',
+  updateCompanyBenefit: 'gusto_update_company_benefit',
+  deleteCompanyBenefit: 'gusto_delete_company_benefit',
+  listSupportedBenefits: 'gusto_list_supported_benefits',
+
+  // Employee Benefits
+  listEmployeeBenefits: 'gusto_list_employee_benefits',
+  getEmployeeBenefit: 'gusto_get_employee_benefit',
+  createEmployeeBenefit: 'gusto_create_employee_benefit',
+  updateEmployeeBenefit: 'gusto_update_employee_benefit',
+  deleteEmployeeBenefit: 'gusto_delete_employee_benefit',
+
+  // Time Off Policies
+  listTimeOffPolicies: 'gusto_list_time_off_policies',
+  getTimeOffPolicy: 'gusto_get_time_off_policy',
+  createTimeOffPolicy: 'gusto_create_time_off_policy',
+  updateTimeOffPolicy: 'gusto_update_time_off_policy',
+  addEmployeesToTimeOffPolicy: 'gusto_add_employees_to_time_off_policy',
+  removeEmployeesFromTimeOffPolicy: 'gusto_remove_employees_from_time_off_policy',
+
+  // Time Off Requests
+  listTimeOffRequests: 'gusto_list_time_off_requests',
+  getTimeOffRequest: 'gusto_get_time_off_request',
+  createTimeOffRequest: 'gusto_create_time_off_request',
+  approveTimeOffRequest: 'gusto_approve_time_off_request',
+  denyTimeOffRequest: 'gusto_deny_time_off_request',
+  listTimeOffActivities: 'gusto_list_time_off_activities',
+
+  // Holiday Pay Policy
+  getHolidayPayPolicy: 'gusto_get_holiday_pay_policy',
+  createHolidayPayPolicy: 'gusto_create_holiday_pay_policy',
+  updateHolidayPayPolicy: 'gusto_update_holiday_pay_policy',
+
+  // Reports
+  createReport: 'gusto_create_report',
+  getReport: 'gusto_get_report',
+
+  // Forms
+  listEmployeeForms: 'gusto_list_employee_forms',
+  listCompanyForms: 'gusto_list_company_forms',
+  listContractorForms: 'gusto_list_contractor_forms',
+
+  // Webhooks
+  listWebhookSubscriptions: 'gusto_list_webhook_subscriptions',
+  getWebhookSubscription: 'gusto_get_webhook_subscription',
+  createWebhookSubscription: 'gusto_create_webhook_subscription',
+  updateWebhookSubscription: 'gusto_update_webhook_subscription',
+  deleteWebhookSubscription: 'gusto_delete_webhook_subscription',
+  requestWebhookVerificationToken: 'gusto_request_webhook_verification_token',
+  verifyWebhookSubscription: 'gusto_verify_webhook_subscription',
+
+  // Events
+  listEvents: 'gusto_list_events',
+
+  // Notifications
+  listNotifications: 'gusto_list_notifications',
+
+  // Reimbursements
+  listRecurringReimbursements: 'gusto_list_recurring_reimbursements',
+  createRecurringReimbursement: 'gusto_create_recurring_reimbursement',
+  updateRecurringReimbursement: 'gusto_update_recurring_reimbursement',
+  deleteRecurringReimbursement: 'gusto_delete_recurring_reimbursement',
+};
@@ -0,0 +1,39 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { describe, expect, it } from 'vitest';
+import type { GustoClient } from '../client.js';
+import type { PaginationParams } from '../types/entities.js';
+import type { Env } from '../types/env.js';
+import { registerGustoTools } from './index.js';
+
+type Handler = (args: Record<string, unknown>) => Promise<unknown>;
+
+/**
+ * Server that records registered tool handlers by name
+ */
+function createRecordingServer(): { server: McpServer; handlers: Map<string, Handler> } {
+  const handlers = new Map<string, Handler>();
+  const server = {
+    tool: (name: string, ...rest: unknown[]) => {
+      handlers.set(name, rest[rest.length - 1] as Handler);
+    },
+  };
+  return { server: server as unknown as McpServer, handlers };
+}
+
+describe('list tools', () => {
+  it('fetch every page at the configured MAX_PAGE_SIZE', async () => {
+    const requests: PaginationParams[] = [];
+    const client = {
+      listEmployees: async (_companyId: string, params: PaginationParams) => {
+        requests.push(params);
+        return { items: [], hasMore: false };
+      },
+    } as unknown as GustoClient;
+    const { server, handlers } = createRecordingServer();
+    registerGustoTools(server, client, { CHARACTER_LIMIT: '50000', MAX_PAGE_SIZE: '250' } as Env);
+
+    await handlers.get('gusto_list_employees')?.({ companyId: 'c1', all: true, format: 'json' });
+
+    expect(requests).toEqual([{ page: 1, per: 250 }]);
+  });
+});
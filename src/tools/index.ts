@@ -7,20 +7,126 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { GustoClient } from '../client.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import type { PaginatedResponse, PaginationParams } from '../types/entities.js';
+import { type Env, getCharacterLimit, getMaxPageSize } from '../types/env.js';
+import { fingerprint, type UsedNonceStore } from '../utils/confirmation.js';
+import { ValidationError } from '../utils/errors.js';
+import { formatError, formatReport, formatResponse, type ToolResponse } from '../utils/formatters.js';
+import { FETCH_ALL_LIMITS, fetchAllPages } from '../utils/pagination.js';
+import {
+  type CompensationDiff,
+  diffEmployeeCompensations,
+  type EmployeeCompensationChange,
+  mergeEmployeeCompensations,
+} from '../utils/payroll.js';
+import { I9_SENSITIVE_FIELDS, redactFields } from '../utils/redaction.js';
+import { sleep } from '../utils/retry.js';
+import { getVerificationToken, putVerificationToken } from '../webhooks/index.js';
+import { type EventCursorStore, pollChanges } from './changes.js';
+import { buildPayrollPreview, guardAction } from './confirmation.js';
+import { limitResponses } from './limits.js';
+import {
+  assertBeforeDeadline,
+  assertPastDeadline,
+  checkPayrollReadiness,
+  findNextRegularPayPeriod,
+} from './payroll.js';
+import { restrictServer, type ToolPolicy } from './policy.js';
+import {
+  assertPayrollVersion,
+  recordPayrollVersions,
+  registerSessionTools,
+  resolvePayrollVersion,
+  type SessionContext,
+} from './session.js';
+
+export type { UsedNonceStore } from '../utils/confirmation.js';
+export type { EventCursorStore } from './changes.js';
+export { parseToolPolicy, TOOL_NAMES, type ToolPolicy } from './policy.js';
+export { defaultToActiveCompany, type SessionContext } from './session.js';
+
+/**
+ * Options for tool registration
+ */
+export interface ToolOptions {
+  /** Per-session context (stateful mode only) */
+  session?: SessionContext;
+  /** Restricts which tools are registered (read-only mode, allow/deny lists) */
+  policy?: ToolPolicy;
+  /** Secret used to sign confirmation tokens for money-moving tools */
+  confirmationSecret?: string;
+  /** Shared record of redeemed confirmation tokens */
+  usedConfirmationNonces?: UsedNonceStore;
+  /** Per-tenant event cursors for gusto_poll_changes */
+  eventCursors?: EventCursorStore;
+}
 
 /**
  * Register all Gusto tools
  */
-export function registerGustoTools(server: McpServer, client: GustoClient): void {
-  registerConnectionTools(server, client);
-  registerCompanyTools(server, client);
-  registerEmployeeTools(server, client);
-  registerContractorTools(server, client);
-  registerPayrollTools(server, client);
-  registerBenefitTools(server, client);
-  registerTimeOffTools(server, client);
-  registerWebhookTools(server, client);
+export function registerGustoTools(
+  server: McpServer,
+  client: GustoClient,
+  env: Env,
+  options: ToolOptions = {}
+): void {
+  const policy = options.policy ?? {};
+  const limited = limitResponses(server, getCharacterLimit(env));
+  const restricted = restrictServer(limited, policy);
+
+  const maxPageSize = getMaxPageSize(env);
+
+  registerConnectionTools(restricted, client);
+  registerCompanyTools(restricted, client, maxPageSize);
+  registerEmployeeTools(restricted, client, maxPageSize);
+  registerI9Tools(restricted, client, env.REDACT_DOCUMENT_NUMBERS !== 'false');
+  registerContractorTools(restricted, client, maxPageSize, options);
+  registerPayrollTools(restricted, client, maxPageSize, options);
+  registerExternalPayrollTools(restricted, client, maxPageSize);
+  registerBenefitTools(restricted, client, maxPageSize);
+  registerTimeOffTools(restricted, client, maxPageSize);
+  registerReportTools(restricted, client);
+  registerWebhookTools(
+    restricted,
+    client,
+    env.WEBHOOK_KV,
+    options.eventCursors,
+    getCharacterLimit(env)
+  );
+  if (options.session) {
+    registerSessionTools(restricted, client, options.session);
+  }
+}
+
+// =============================================================================
+// Pagination
+// =============================================================================
+
+/**
+ * Pagination arguments shared by list tools
+ */
+const paginationArgs = {
+  page: z.number().int().min(1).optional().describe('Page number'),
+  per: z.number().int().min(1).optional().describe('Items per page (capped at MAX_PAGE_SIZE)'),
+  all: z
+    .boolean()
+    .optional()
+    .describe(`Fetch every page starting at \`page\` (up to ${FETCH_ALL_LIMITS.maxItems} items)`),
+};
+
+/**
+ * Fetch one page, or every page when `all` is set. Without `per`, every page
+ * is fetched at the configured MAX_PAGE_SIZE.
+ */
+function listPages<T>(
+  maxPageSize: number,
+  { page, per, all }: PaginationParams & { all?: boolean },
+  fetchPage: (params: PaginationParams) => Promise<PaginatedResponse<T>>
+): Promise<PaginatedResponse<T>> {
+  if (all) {
+    return fetchAllPages((next) => fetchPage({ page: next, per: per ?? maxPageSize }), page);
+  }
+  return fetchPage({ page, per });
 }
 
 // =============================================================================
@@ -30,7 +136,7 @@ export function registerGustoTools(server: McpServer, client: GustoClient): void
 function registerConnectionTools(server: McpServer, client: GustoClient): void {
   server.tool(
     'gusto_test_connection',
-    'Test the connection to the Gusto API and verify credentials.',
+    'Test the connection to the Gusto API, verify credentials and report the API version in use.',
     {},
     async () => {
       try {
@@ -63,7 +169,11 @@ function registerConnectionTools(server: McpServer, client: GustoClient): void {
 // Company Tools
 // =============================================================================
 
-function registerCompanyTools(server: McpServer, client: GustoClient): void {
+function registerCompanyTools(
+  server: McpServer,
+  client: GustoClient,
+  maxPageSize: number
+): void {
   server.tool(
     'gusto_get_company',
     'Get details of a company by ID.',
@@ -82,15 +192,95 @@ function registerCompanyTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_locations',
-    'List all locations for a company.',
+    'gusto_update_company',
+    "Update a company's name or trade name.",
+    {
+      companyId: z.string().describe('Company UUID'),
+      name: z.string().optional().describe('Legal company name'),
+      tradeName: z.string().optional().describe('Trade name (DBA)'),
+    },
+    async ({ companyId, ...data }) => {
+      try {
+        const result = await client.updateCompany(companyId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, company: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_get_company_federal_tax_details',
+    'Get federal tax details for a company (EIN verification, tax payer type, filing form). Returns the version needed for updates.',
     {
       companyId: z.string().describe('Company UUID'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
     async ({ companyId, format }) => {
       try {
-        const result = await client.listLocations(companyId);
+        const result = await client.getCompanyFederalTaxDetails(companyId);
+        return formatResponse(result, format, 'federalTaxDetails');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_company_federal_tax_details',
+    'Update federal tax details for a company. Requires the version from gusto_get_company_federal_tax_details; the update is rejected if the details changed since.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      version: z.string().describe('Current version (from gusto_get_company_federal_tax_details)'),
+      ein: z.string().optional().describe('Federal EIN (XX-XXXXXXX)'),
+      legalName: z.string().optional().describe('Legal name as registered with the IRS'),
+      taxPayerType: z
+        .enum([
+          'C-Corporation',
+          'S-Corporation',
+          'Sole proprietor',
+          'LLC',
+          'LLP',
+          'Limited partnership',
+          'Co-ownership',
+          'Association',
+          'Trusteeship',
+          'General partnership',
+          'Joint venture',
+          'Non-Profit',
+        ])
+        .optional()
+        .describe('Tax payer type'),
+      filingForm: z.enum(['941', '944']).optional().describe('Federal filing form (941 quarterly, 944 annual)'),
+      taxableAsScorp: z.boolean().optional().describe('Company is taxed as an S-Corporation'),
+    },
+    async ({ companyId, ...data }) => {
+      try {
+        const result = await client.updateCompanyFederalTaxDetails(companyId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, federalTaxDetails: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_locations',
+    'List locations for a company with pagination.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      ...paginationArgs,
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, page, per, all, format }) => {
+      try {
+        const result = await listPages(maxPageSize, { page, per, all }, (params) =>
+          client.listLocations(companyId, params)
+        );
         return formatResponse(result, format, 'locations');
       } catch (error) {
         return formatError(error);
@@ -124,6 +314,50 @@ function registerCompanyTools(server: McpServer, client: GustoClient): void {
     }
   );
 
+  server.tool(
+    'gusto_get_location',
+    'Get details of a location.',
+    {
+      locationId: z.string().describe('Location UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ locationId, format }) => {
+      try {
+        const result = await client.getLocation(locationId);
+        return formatResponse(result, format, 'location');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_location',
+    'Update a company location.',
+    {
+      locationId: z.string().describe('Location UUID'),
+      street1: z.string().optional().describe('Street address'),
+      street2: z.string().optional().describe('Street address line 2'),
+      city: z.string().optional().describe('City'),
+      state: z.string().optional().describe('State (2-letter code)'),
+      zip: z.string().optional().describe('ZIP code'),
+      country: z.string().optional().describe('Country (default: USA)'),
+      phoneNumber: z.string().optional().describe('Phone number'),
+      mailingAddress: z.boolean().optional().describe('Is this the mailing address?'),
+      filingAddress: z.boolean().optional().describe('Is this the filing address?'),
+    },
+    async ({ locationId, ...data }) => {
+      try {
+        const result = await client.updateLocation(locationId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, location: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   server.tool(
     'gusto_list_departments',
     'List all departments for a company.',
@@ -160,6 +394,60 @@ function registerCompanyTools(server: McpServer, client: GustoClient): void {
     }
   );
 
+  server.tool(
+    'gusto_get_department',
+    'Get details of a department.',
+    {
+      departmentId: z.string().describe('Department UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ departmentId, format }) => {
+      try {
+        const result = await client.getDepartment(departmentId);
+        return formatResponse(result, format, 'department');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_department',
+    'Rename a department.',
+    {
+      departmentId: z.string().describe('Department UUID'),
+      title: z.string().describe('Department title'),
+    },
+    async ({ departmentId, title }) => {
+      try {
+        const result = await client.updateDepartment(departmentId, title);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, department: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_delete_department',
+    'Delete a department.',
+    {
+      departmentId: z.string().describe('Department UUID'),
+    },
+    async ({ departmentId }) => {
+      try {
+        await client.deleteDepartment(departmentId);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Department deleted' }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   server.tool(
     'gusto_list_admins',
     'List all admins for a company.',
@@ -177,6 +465,27 @@ function registerCompanyTools(server: McpServer, client: GustoClient): void {
     }
   );
 
+  server.tool(
+    'gusto_create_admin',
+    'Invite an admin to a company.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      email: z.string().email().describe('Admin email address'),
+      firstName: z.string().optional().describe('First name'),
+      lastName: z.string().optional().describe('Last name'),
+    },
+    async ({ companyId, email, firstName, lastName }) => {
+      try {
+        const result = await client.createAdmin(companyId, email, firstName, lastName);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, admin: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   server.tool(
     'gusto_list_signatories',
     'List all signatories for a company.',
@@ -194,6 +503,31 @@ function registerCompanyTools(server: McpServer, client: GustoClient): void {
     }
   );
 
+  server.tool(
+    'gusto_create_signatory',
+    'Create the signatory for a company.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      firstName: z.string().describe('First name'),
+      lastName: z.string().describe('Last name'),
+      email: z.string().email().describe('Email address'),
+      title: z.string().describe('Job title'),
+      phone: z.string().optional().describe('Phone number'),
+      birthday: z.string().optional().describe('Birthday (YYYY-MM-DD)'),
+      middleInitial: z.string().optional().describe('Middle initial'),
+    },
+    async ({ companyId, ...data }) => {
+      try {
+        const result = await client.createSignatory(companyId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, signatory: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   server.tool(
     'gusto_list_company_bank_accounts',
     'List all bank accounts for a company.',
@@ -210,26 +544,53 @@ function registerCompanyTools(server: McpServer, client: GustoClient): void {
       }
     }
   );
+
+  server.tool(
+    'gusto_create_company_bank_account',
+    'Add a bank account to a company. Gusto verifies it with micro-deposits before it can fund payroll.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      name: z.string().describe('Account nickname'),
+      routingNumber: z.string().describe('9-digit routing number'),
+      accountNumber: z.string().describe('Account number'),
+      accountType: z.enum(['Checking', 'Savings']).describe('Account type'),
+    },
+    async ({ companyId, ...data }) => {
+      try {
+        const result = await client.createCompanyBankAccount(companyId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, bankAccount: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
 }
 
 // =============================================================================
 // Employee Tools
 // =============================================================================
 
-function registerEmployeeTools(server: McpServer, client: GustoClient): void {
+function registerEmployeeTools(
+  server: McpServer,
+  client: GustoClient,
+  maxPageSize: number
+): void {
   server.tool(
     'gusto_list_employees',
     'List employees for a company with pagination.',
     {
       companyId: z.string().describe('Company UUID'),
-      page: z.number().int().min(1).optional().describe('Page number'),
-      per: z.number().int().min(1).max(100).optional().describe('Items per page'),
+      ...paginationArgs,
       terminated: z.boolean().optional().describe('Include terminated employees'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ companyId, page, per, terminated, format }) => {
+    async ({ companyId, page, per, all, terminated, format }) => {
       try {
-        const result = await client.listEmployees(companyId, { page, per, terminated });
+        const result = await listPages(maxPageSize, { page, per, all }, (params) =>
+          client.listEmployees(companyId, { ...params, terminated })
+        );
         return formatResponse(result, format, 'employees');
       } catch (error) {
         return formatError(error);
@@ -303,6 +664,24 @@ function registerEmployeeTools(server: McpServer, client: GustoClient): void {
     }
   );
 
+  server.tool(
+    'gusto_delete_onboarding_employee',
+    'Delete an employee who is still onboarding. Onboarded employees must be terminated instead.',
+    {
+      employeeId: z.string().describe('Employee UUID'),
+    },
+    async ({ employeeId }) => {
+      try {
+        await client.deleteOnboardingEmployee(employeeId);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Employee deleted' }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   server.tool(
     'gusto_get_employee_onboarding_status',
     'Get onboarding status for an employee.',
@@ -358,6 +737,61 @@ function registerEmployeeTools(server: McpServer, client: GustoClient): void {
     }
   );
 
+  server.tool(
+    'gusto_get_job',
+    'Get details of a job.',
+    {
+      jobId: z.string().describe('Job UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ jobId, format }) => {
+      try {
+        const result = await client.getJob(jobId);
+        return formatResponse(result, format, 'job');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_job',
+    'Update a job.',
+    {
+      jobId: z.string().describe('Job UUID'),
+      title: z.string().optional().describe('Job title'),
+      locationUuid: z.string().optional().describe('Location UUID'),
+    },
+    async ({ jobId, ...data }) => {
+      try {
+        const result = await client.updateJob(jobId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, job: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_delete_job',
+    'Delete a job.',
+    {
+      jobId: z.string().describe('Job UUID'),
+    },
+    async ({ jobId }) => {
+      try {
+        await client.deleteJob(jobId);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Job deleted' }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   server.tool(
     'gusto_list_compensations',
     'List compensations for a job.',
@@ -397,6 +831,46 @@ function registerEmployeeTools(server: McpServer, client: GustoClient): void {
     }
   );
 
+  server.tool(
+    'gusto_get_compensation',
+    'Get details of a compensation.',
+    {
+      compensationId: z.string().describe('Compensation UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ compensationId, format }) => {
+      try {
+        const result = await client.getCompensation(compensationId);
+        return formatResponse(result, format, 'compensation');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_compensation',
+    'Update a compensation.',
+    {
+      compensationId: z.string().describe('Compensation UUID'),
+      rate: z.string().optional().describe('Pay rate'),
+      paymentUnit: z.enum(['Hour', 'Week', 'Month', 'Year', 'Paycheck']).optional().describe('Payment unit'),
+      flsaStatus: z.enum(['Exempt', 'Salaried Nonexempt', 'Nonexempt', 'Owner']).optional(),
+      effectiveDate: z.string().optional().describe('Effective date (YYYY-MM-DD)'),
+      adjustForMinimumWage: z.boolean().optional().describe('Adjust pay up to the local minimum wage'),
+    },
+    async ({ compensationId, ...data }) => {
+      try {
+        const result = await client.updateCompensation(compensationId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, compensation: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   server.tool(
     'gusto_list_home_addresses',
     'List home addresses for an employee.',
@@ -439,33 +913,40 @@ function registerEmployeeTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_get_federal_taxes',
-    'Get federal tax information for an employee.',
+    'gusto_update_home_address',
+    'Update an employee home address.',
     {
-      employeeId: z.string().describe('Employee UUID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      addressId: z.string().describe('Home address UUID'),
+      street1: z.string().optional().describe('Street address'),
+      street2: z.string().optional(),
+      city: z.string().optional().describe('City'),
+      state: z.string().optional().describe('State (2-letter code)'),
+      zip: z.string().optional().describe('ZIP code'),
+      effectiveDate: z.string().optional().describe('Effective date (YYYY-MM-DD)'),
     },
-    async ({ employeeId, format }) => {
+    async ({ addressId, ...data }) => {
       try {
-        const result = await client.getFederalTaxes(employeeId);
-        return formatResponse(result, format, 'federalTaxes');
-      } catch (error) {
+        const result = await client.updateHomeAddress(addressId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, address: result }, null, 2) }],
+        };
+      } catch (error) {
         return formatError(error);
       }
     }
   );
 
   server.tool(
-    'gusto_get_state_taxes',
-    'Get state tax information for an employee.',
+    'gusto_list_work_addresses',
+    'List work addresses for an employee.',
     {
       employeeId: z.string().describe('Employee UUID'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
     async ({ employeeId, format }) => {
       try {
-        const result = await client.getStateTaxes(employeeId);
-        return formatResponse(result, format, 'stateTaxes');
+        const result = await client.listWorkAddresses(employeeId);
+        return formatResponse(result, format, 'workAddresses');
       } catch (error) {
         return formatError(error);
       }
@@ -473,16 +954,19 @@ function registerEmployeeTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_employee_bank_accounts',
-    'List bank accounts for an employee.',
+    'gusto_create_work_address',
+    'Assign an employee to a company location as their work address.',
     {
       employeeId: z.string().describe('Employee UUID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      locationUuid: z.string().describe('Company location UUID'),
+      effectiveDate: z.string().optional().describe('Effective date (YYYY-MM-DD)'),
     },
-    async ({ employeeId, format }) => {
+    async ({ employeeId, locationUuid, effectiveDate }) => {
       try {
-        const result = await client.listEmployeeBankAccounts(employeeId);
-        return formatResponse(result, format, 'bankAccounts');
+        const result = await client.createWorkAddress(employeeId, locationUuid, effectiveDate);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, workAddress: result }, null, 2) }],
+        };
       } catch (error) {
         return formatError(error);
       }
@@ -490,16 +974,16 @@ function registerEmployeeTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_get_employee_payment_method',
-    'Get payment method for an employee.',
+    'gusto_get_federal_taxes',
+    'Get federal tax information for an employee.',
     {
       employeeId: z.string().describe('Employee UUID'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
     async ({ employeeId, format }) => {
       try {
-        const result = await client.getEmployeePaymentMethod(employeeId);
-        return formatResponse(result, format, 'paymentMethod');
+        const result = await client.getFederalTaxes(employeeId);
+        return formatResponse(result, format, 'federalTaxes');
       } catch (error) {
         return formatError(error);
       }
@@ -507,16 +991,24 @@ function registerEmployeeTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_terminations',
-    'List terminations for an employee.',
+    'gusto_update_federal_taxes',
+    'Update federal tax withholding (W-4) for an employee. Requires the version from gusto_get_federal_taxes.',
     {
       employeeId: z.string().describe('Employee UUID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      version: z.string().describe('Current version (from gusto_get_federal_taxes)'),
+      filingStatus: z.string().optional().describe('Filing status, e.g. Single, Married, Head of Household'),
+      extraWithholding: z.string().optional().describe('Extra withholding per pay period'),
+      twoJobs: z.boolean().optional().describe('Multiple jobs or spouse works (W-4 step 2)'),
+      dependentsAmount: z.string().optional().describe('Dependents amount (W-4 step 3)'),
+      otherIncome: z.string().optional().describe('Other income (W-4 step 4a)'),
+      deductions: z.string().optional().describe('Deductions (W-4 step 4b)'),
     },
-    async ({ employeeId, format }) => {
+    async ({ employeeId, ...data }) => {
       try {
-        const result = await client.listTerminations(employeeId);
-        return formatResponse(result, format, 'terminations');
+        const result = await client.updateFederalTaxes(employeeId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, federalTaxes: result }, null, 2) }],
+        };
       } catch (error) {
         return formatError(error);
       }
@@ -524,19 +1016,16 @@ function registerEmployeeTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_create_termination',
-    'Create a termination for an employee.',
+    'gusto_get_state_taxes',
+    'Get state tax information for an employee.',
     {
       employeeId: z.string().describe('Employee UUID'),
-      effectiveDate: z.string().describe('Termination date (YYYY-MM-DD)'),
-      runTerminationPayroll: z.boolean().optional().describe('Run termination payroll'),
+      format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ employeeId, ...data }) => {
+    async ({ employeeId, format }) => {
       try {
-        const result = await client.createTermination(employeeId, data);
-        return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, termination: result }, null, 2) }],
-        };
+        const result = await client.getStateTaxes(employeeId);
+        return formatResponse(result, format, 'stateTaxes');
       } catch (error) {
         return formatError(error);
       }
@@ -544,16 +1033,22 @@ function registerEmployeeTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_garnishments',
-    'List garnishments for an employee.',
+    'gusto_update_state_taxes',
+    'Update state tax withholding for an employee.',
     {
       employeeId: z.string().describe('Employee UUID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      state: z.string().describe('State (2-letter code)'),
+      filingStatus: z.string().optional().describe('Filing status'),
+      extraWithholding: z.string().optional().describe('Extra withholding per pay period'),
+      exemptions: z.number().int().min(0).optional().describe('Number of exemptions'),
+      allowances: z.number().int().min(0).optional().describe('Number of allowances'),
     },
-    async ({ employeeId, format }) => {
+    async ({ employeeId, state, ...data }) => {
       try {
-        const result = await client.listGarnishments(employeeId);
-        return formatResponse(result, format, 'garnishments');
+        const result = await client.updateStateTaxes(employeeId, state, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, stateTaxes: result }, null, 2) }],
+        };
       } catch (error) {
         return formatError(error);
       }
@@ -561,22 +1056,16 @@ function registerEmployeeTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_create_garnishment',
-    'Create a garnishment for an employee.',
+    'gusto_list_employee_bank_accounts',
+    'List bank accounts for an employee.',
     {
       employeeId: z.string().describe('Employee UUID'),
-      description: z.string().describe('Description'),
-      amount: z.string().describe('Amount'),
-      courtOrdered: z.boolean().optional().describe('Is court ordered'),
-      recurring: z.boolean().optional().describe('Is recurring'),
-      deductAsPercentage: z.boolean().optional().describe('Deduct as percentage'),
+      format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ employeeId, ...data }) => {
+    async ({ employeeId, format }) => {
       try {
-        const result = await client.createGarnishment(employeeId, data);
-        return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, garnishment: result }, null, 2) }],
-        };
+        const result = await client.listEmployeeBankAccounts(employeeId);
+        return formatResponse(result, format, 'bankAccounts');
       } catch (error) {
         return formatError(error);
       }
@@ -584,16 +1073,21 @@ function registerEmployeeTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_employee_forms',
-    'List forms for an employee.',
+    'gusto_create_employee_bank_account',
+    'Add a bank account for an employee.',
     {
       employeeId: z.string().describe('Employee UUID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      name: z.string().describe('Account nickname'),
+      routingNumber: z.string().describe('9-digit routing number'),
+      accountNumber: z.string().describe('Account number'),
+      accountType: z.enum(['Checking', 'Savings']).describe('Account type'),
     },
-    async ({ employeeId, format }) => {
+    async ({ employeeId, ...data }) => {
       try {
-        const result = await client.listEmployeeForms(employeeId);
-        return formatResponse(result, format, 'forms');
+        const result = await client.createEmployeeBankAccount(employeeId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, bankAccount: result }, null, 2) }],
+        };
       } catch (error) {
         return formatError(error);
       }
@@ -601,16 +1095,16 @@ function registerEmployeeTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_recurring_reimbursements',
-    'List recurring reimbursements for an employee.',
+    'gusto_get_employee_payment_method',
+    'Get payment method for an employee.',
     {
       employeeId: z.string().describe('Employee UUID'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
     async ({ employeeId, format }) => {
       try {
-        const result = await client.listRecurringReimbursements(employeeId);
-        return formatResponse(result, format, 'reimbursements');
+        const result = await client.getEmployeePaymentMethod(employeeId);
+        return formatResponse(result, format, 'paymentMethod');
       } catch (error) {
         return formatError(error);
       }
@@ -618,44 +1112,46 @@ function registerEmployeeTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_create_recurring_reimbursement',
-    'Create a recurring reimbursement for an employee.',
+    'gusto_update_employee_payment_method',
+    'Set how an employee is paid: by check, or by direct deposit split across bank accounts.',
     {
       employeeId: z.string().describe('Employee UUID'),
-      description: z.string().describe('Description'),
-      amount: z.string().describe('Amount'),
-      effectiveDate: z.string().optional().describe('Effective date (YYYY-MM-DD)'),
-      active: z.boolean().optional().describe('Is active'),
+      type: z.enum(['Direct Deposit', 'Check']).describe('Payment method'),
+      splitBy: z.enum(['Amount', 'Percentage']).optional().describe('How direct deposit is split (Direct Deposit only)'),
+      splits: z
+        .array(
+          z.object({
+            bankAccountUuid: z.string().describe('Employee bank account UUID'),
+            priority: z.number().int().min(1).describe('Order the split is applied in'),
+            splitAmount: z.string().optional().describe('Amount or percentage; omit for the remainder account'),
+          })
+        )
+        .optional()
+        .describe('Direct deposit splits'),
     },
     async ({ employeeId, ...data }) => {
       try {
-        const result = await client.createRecurringReimbursement(employeeId, data);
+        const result = await client.updateEmployeePaymentMethod(employeeId, data);
         return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, reimbursement: result }, null, 2) }],
+          content: [{ type: 'text', text: JSON.stringify({ success: true, paymentMethod: result }, null, 2) }],
         };
       } catch (error) {
         return formatError(error);
       }
     }
   );
-}
-
-// =============================================================================
-// Contractor Tools
-// =============================================================================
 
-function registerContractorTools(server: McpServer, client: GustoClient): void {
   server.tool(
-    'gusto_list_contractors',
-    'List contractors for a company.',
+    'gusto_list_terminations',
+    'List terminations for an employee.',
     {
-      companyId: z.string().describe('Company UUID'),
+      employeeId: z.string().describe('Employee UUID'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ companyId, format }) => {
+    async ({ employeeId, format }) => {
       try {
-        const result = await client.listContractors(companyId);
-        return formatResponse(result, format, 'contractors');
+        const result = await client.listTerminations(employeeId);
+        return formatResponse(result, format, 'terminations');
       } catch (error) {
         return formatError(error);
       }
@@ -663,16 +1159,19 @@ function registerContractorTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_get_contractor',
-    'Get details of a contractor.',
+    'gusto_create_termination',
+    'Create a termination for an employee.',
     {
-      contractorId: z.string().describe('Contractor UUID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      employeeId: z.string().describe('Employee UUID'),
+      effectiveDate: z.string().describe('Termination date (YYYY-MM-DD)'),
+      runTerminationPayroll: z.boolean().optional().describe('Run termination payroll'),
     },
-    async ({ contractorId, format }) => {
+    async ({ employeeId, ...data }) => {
       try {
-        const result = await client.getContractor(contractorId);
-        return formatResponse(result, format, 'contractor');
+        const result = await client.createTermination(employeeId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, termination: result }, null, 2) }],
+        };
       } catch (error) {
         return formatError(error);
       }
@@ -680,24 +1179,16 @@ function registerContractorTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_create_contractor',
-    'Create a new contractor.',
+    'gusto_delete_termination',
+    'Cancel a pending termination for an employee.',
     {
-      companyId: z.string().describe('Company UUID'),
-      type: z.enum(['Individual', 'Business']).describe('Contractor type'),
-      wageType: z.enum(['Fixed', 'Hourly']).describe('Wage type'),
-      firstName: z.string().optional().describe('First name (for Individual)'),
-      lastName: z.string().optional().describe('Last name (for Individual)'),
-      businessName: z.string().optional().describe('Business name (for Business)'),
-      email: z.string().email().optional().describe('Email address'),
-      startDate: z.string().optional().describe('Start date (YYYY-MM-DD)'),
-      selfOnboarding: z.boolean().optional().describe('Enable self-onboarding'),
+      employeeId: z.string().describe('Employee UUID'),
     },
-    async ({ companyId, ...data }) => {
+    async ({ employeeId }) => {
       try {
-        const result = await client.createContractor(companyId, data);
+        await client.deleteTermination(employeeId);
         return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, contractor: result }, null, 2) }],
+          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Termination deleted' }, null, 2) }],
         };
       } catch (error) {
         return formatError(error);
@@ -706,21 +1197,16 @@ function registerContractorTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_update_contractor',
-    'Update an existing contractor.',
+    'gusto_get_rehire',
+    'Get the scheduled rehire for an employee.',
     {
-      contractorId: z.string().describe('Contractor UUID'),
-      firstName: z.string().optional(),
-      lastName: z.string().optional(),
-      businessName: z.string().optional(),
-      email: z.string().email().optional(),
+      employeeId: z.string().describe('Employee UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ contractorId, ...data }) => {
+    async ({ employeeId, format }) => {
       try {
-        const result = await client.updateContractor(contractorId, data);
-        return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, contractor: result }, null, 2) }],
-        };
+        const result = await client.getRehire(employeeId);
+        return formatResponse(result, format, 'rehire');
       } catch (error) {
         return formatError(error);
       }
@@ -728,16 +1214,17 @@ function registerContractorTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_delete_contractor',
-    'Delete a contractor.',
+    'gusto_create_rehire',
+    'Rehire a terminated employee.',
     {
-      contractorId: z.string().describe('Contractor UUID'),
+      employeeId: z.string().describe('Employee UUID'),
+      effectiveDate: z.string().describe('Rehire date (YYYY-MM-DD)'),
     },
-    async ({ contractorId }) => {
+    async ({ employeeId, effectiveDate }) => {
       try {
-        await client.deleteContractor(contractorId);
+        const result = await client.createRehire(employeeId, effectiveDate);
         return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Contractor deleted' }, null, 2) }],
+          content: [{ type: 'text', text: JSON.stringify({ success: true, rehire: result }, null, 2) }],
         };
       } catch (error) {
         return formatError(error);
@@ -746,19 +1233,16 @@ function registerContractorTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_contractor_payments',
-    'List contractor payments for a company.',
+    'gusto_list_garnishments',
+    'List garnishments for an employee.',
     {
-      companyId: z.string().describe('Company UUID'),
-      startDate: z.string().optional().describe('Start date (YYYY-MM-DD)'),
-      endDate: z.string().optional().describe('End date (YYYY-MM-DD)'),
-      contractorUuid: z.string().optional().describe('Filter by contractor UUID'),
+      employeeId: z.string().describe('Employee UUID'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ companyId, startDate, endDate, contractorUuid, format }) => {
+    async ({ employeeId, format }) => {
       try {
-        const result = await client.listContractorPayments(companyId, { startDate, endDate, contractorUuid });
-        return formatResponse(result, format, 'contractorPayments');
+        const result = await client.listGarnishments(employeeId);
+        return formatResponse(result, format, 'garnishments');
       } catch (error) {
         return formatError(error);
       }
@@ -766,23 +1250,21 @@ function registerContractorTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_create_contractor_payment',
-    'Create a contractor payment.',
+    'gusto_create_garnishment',
+    'Create a garnishment for an employee.',
     {
-      companyId: z.string().describe('Company UUID'),
-      contractorUuid: z.string().describe('Contractor UUID'),
-      date: z.string().describe('Payment date (YYYY-MM-DD)'),
-      wage: z.string().optional().describe('Wage amount'),
-      hours: z.string().optional().describe('Hours worked'),
-      bonus: z.string().optional().describe('Bonus amount'),
-      reimbursement: z.string().optional().describe('Reimbursement amount'),
-      paymentMethod: z.enum(['Direct Deposit', 'Check', 'Historical Payment']).optional(),
+      employeeId: z.string().describe('Employee UUID'),
+      description: z.string().describe('Description'),
+      amount: z.string().describe('Amount'),
+      courtOrdered: z.boolean().optional().describe('Is court ordered'),
+      recurring: z.boolean().optional().describe('Is recurring'),
+      deductAsPercentage: z.boolean().optional().describe('Deduct as percentage'),
     },
-    async ({ companyId, ...data }) => {
+    async ({ employeeId, ...data }) => {
       try {
-        const result = await client.createContractorPayment(companyId, data);
+        const result = await client.createGarnishment(employeeId, data);
         return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, payment: result }, null, 2) }],
+          content: [{ type: 'text', text: JSON.stringify({ success: true, garnishment: result }, null, 2) }],
         };
       } catch (error) {
         return formatError(error);
@@ -791,16 +1273,16 @@ function registerContractorTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_contractor_bank_accounts',
-    'List bank accounts for a contractor.',
+    'gusto_get_garnishment',
+    'Get details of a garnishment.',
     {
-      contractorId: z.string().describe('Contractor UUID'),
+      garnishmentId: z.string().describe('Garnishment UUID'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ contractorId, format }) => {
+    async ({ garnishmentId, format }) => {
       try {
-        const result = await client.listContractorBankAccounts(contractorId);
-        return formatResponse(result, format, 'bankAccounts');
+        const result = await client.getGarnishment(garnishmentId);
+        return formatResponse(result, format, 'garnishment');
       } catch (error) {
         return formatError(error);
       }
@@ -808,42 +1290,43 @@ function registerContractorTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_contractor_forms',
-    'List forms for a contractor.',
+    'gusto_update_garnishment',
+    'Update a garnishment.',
     {
-      contractorId: z.string().describe('Contractor UUID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      garnishmentId: z.string().describe('Garnishment UUID'),
+      description: z.string().optional().describe('Description'),
+      amount: z.string().optional().describe('Amount'),
+      active: z.boolean().optional().describe('Is active'),
+      courtOrdered: z.boolean().optional().describe('Is court ordered'),
+      recurring: z.boolean().optional().describe('Is recurring'),
+      times: z.number().int().min(1).optional().describe('Number of times to apply (non-recurring only)'),
+      annualMaximum: z.string().optional().describe('Maximum deducted per year'),
+      payPeriodMaximum: z.string().optional().describe('Maximum deducted per pay period'),
+      deductAsPercentage: z.boolean().optional().describe('Deduct as percentage'),
     },
-    async ({ contractorId, format }) => {
+    async ({ garnishmentId, ...data }) => {
       try {
-        const result = await client.listContractorForms(contractorId);
-        return formatResponse(result, format, 'forms');
+        const result = await client.updateGarnishment(garnishmentId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, garnishment: result }, null, 2) }],
+        };
       } catch (error) {
         return formatError(error);
       }
     }
   );
-}
-
-// =============================================================================
-// Payroll Tools
-// =============================================================================
 
-function registerPayrollTools(server: McpServer, client: GustoClient): void {
   server.tool(
-    'gusto_list_payrolls',
-    'List payrolls for a company.',
+    'gusto_list_employee_forms',
+    'List forms for an employee.',
     {
-      companyId: z.string().describe('Company UUID'),
-      startDate: z.string().optional().describe('Start date (YYYY-MM-DD)'),
-      endDate: z.string().optional().describe('End date (YYYY-MM-DD)'),
-      processed: z.boolean().optional().describe('Filter by processed status'),
+      employeeId: z.string().describe('Employee UUID'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ companyId, startDate, endDate, processed, format }) => {
+    async ({ employeeId, format }) => {
       try {
-        const result = await client.listPayrolls(companyId, { startDate, endDate, processed });
-        return formatResponse(result, format, 'payrolls');
+        const result = await client.listEmployeeForms(employeeId);
+        return formatResponse(result, format, 'forms');
       } catch (error) {
         return formatError(error);
       }
@@ -851,17 +1334,16 @@ function registerPayrollTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_get_payroll',
-    'Get details of a specific payroll.',
+    'gusto_list_recurring_reimbursements',
+    'List recurring reimbursements for an employee.',
     {
-      companyId: z.string().describe('Company UUID'),
-      payrollId: z.string().describe('Payroll UUID'),
+      employeeId: z.string().describe('Employee UUID'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ companyId, payrollId, format }) => {
+    async ({ employeeId, format }) => {
       try {
-        const result = await client.getPayroll(companyId, payrollId);
-        return formatResponse(result, format, 'payroll');
+        const result = await client.listRecurringReimbursements(employeeId);
+        return formatResponse(result, format, 'reimbursements');
       } catch (error) {
         return formatError(error);
       }
@@ -869,36 +1351,1646 @@ function registerPayrollTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_calculate_payroll',
-    'Calculate a payroll (required before submitting).',
+    'gusto_create_recurring_reimbursement',
+    'Create a recurring reimbursement for an employee.',
+    {
+      employeeId: z.string().describe('Employee UUID'),
+      description: z.string().describe('Description'),
+      amount: z.string().describe('Amount'),
+      effectiveDate: z.string().optional().describe('Effective date (YYYY-MM-DD)'),
+      active: z.boolean().optional().describe('Is active'),
+    },
+    async ({ employeeId, ...data }) => {
+      try {
+        const result = await client.createRecurringReimbursement(employeeId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, reimbursement: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_recurring_reimbursement',
+    'Update a recurring reimbursement.',
+    {
+      reimbursementId: z.string().describe('Recurring reimbursement UUID'),
+      description: z.string().optional().describe('Description'),
+      amount: z.string().optional().describe('Amount'),
+      effectiveDate: z.string().optional().describe('Effective date (YYYY-MM-DD)'),
+      active: z.boolean().optional().describe('Is active'),
+    },
+    async ({ reimbursementId, ...data }) => {
+      try {
+        const result = await client.updateRecurringReimbursement(reimbursementId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, reimbursement: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_delete_recurring_reimbursement',
+    'Delete a recurring reimbursement.',
+    {
+      reimbursementId: z.string().describe('Recurring reimbursement UUID'),
+    },
+    async ({ reimbursementId }) => {
+      try {
+        await client.deleteRecurringReimbursement(reimbursementId);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Reimbursement deleted' }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+// =============================================================================
+// I-9 Tools
+// =============================================================================
+
+/**
+ * Register I-9 employment eligibility tools.
+ * Document numbers are masked in every response unless redaction is disabled.
+ */
+function registerI9Tools(server: McpServer, client: GustoClient, redact: boolean): void {
+  const safe = <T>(value: T): T => (redact ? redactFields(value, I9_SENSITIVE_FIELDS) : value);
+
+  server.tool(
+    'gusto_get_i9_authorization',
+    "Get an employee's I-9 authorization (citizenship status, document, expiration date, signatures). Document numbers are redacted.",
+    {
+      employeeId: z.string().describe('Employee UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ employeeId, format }) => {
+      try {
+        const result = await client.getI9Authorization(employeeId);
+        if (!result) {
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ message: 'No I-9 authorization found' }, null, 2) }],
+          };
+        }
+        return formatResponse(safe(result), format, 'i9Authorization');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_i9_authorization',
+    "Update an employee's I-9 authorization. The current version is fetched automatically when not supplied.",
+    {
+      employeeId: z.string().describe('Employee UUID'),
+      citizenshipStatus: z
+        .enum(['citizen', 'noncitizen', 'permanent_resident', 'alien'])
+        .describe('Authorization status'),
+      documentType: z.string().optional().describe('Document type'),
+      documentTitle: z.string().optional().describe('Document title'),
+      expirationDate: z.string().optional().describe('Work authorization expiration date (YYYY-MM-DD)'),
+      alienNumber: z.string().optional().describe('USCIS / A-Number'),
+      i94Number: z.string().optional().describe('Form I-94 admission number'),
+      foreignPassportNumber: z.string().optional().describe('Foreign passport number'),
+      countryOfIssuance: z.string().optional().describe('Passport country of issuance'),
+      version: z.string().optional().describe('Current version (for optimistic locking)'),
+    },
+    async ({ employeeId, version, ...data }) => {
+      try {
+        const current = version ? undefined : await client.getI9Authorization(employeeId);
+        const result = await client.updateI9Authorization(employeeId, {
+          ...data,
+          version: version ?? current?.version,
+        });
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, i9Authorization: safe(result) }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_i9_document_options',
+    'List the documents an employee may present for I-9 verification, based on their authorization status.',
+    {
+      employeeId: z.string().describe('Employee UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ employeeId, format }) => {
+      try {
+        const result = await client.listI9DocumentOptions(employeeId);
+        return formatResponse(result, format, 'i9DocumentOptions');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_i9_documents',
+    'List the I-9 documents recorded for an employee. Document numbers are redacted.',
+    {
+      employeeId: z.string().describe('Employee UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ employeeId, format }) => {
+      try {
+        const result = await client.listI9Documents(employeeId);
+        return formatResponse(safe(result), format, 'i9Documents');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_i9_documents',
+    'Record the documents the employer examined for I-9 Section 2.',
+    {
+      employeeId: z.string().describe('Employee UUID'),
+      documents: z
+        .array(
+          z.object({
+            documentType: z.string().describe('Document type (from gusto_list_i9_document_options)'),
+            documentTitle: z.string().describe('Document title'),
+            documentNumber: z.string().describe('Document number'),
+            issuingAuthority: z.string().describe('Issuing authority'),
+            expirationDate: z.string().optional().describe('Expiration date (YYYY-MM-DD)'),
+          })
+        )
+        .min(1),
+    },
+    async ({ employeeId, documents }) => {
+      try {
+        const result = await client.updateI9Documents(employeeId, documents);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, documents: safe(result) }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_sign_i9_employer_section',
+    'Sign I-9 Section 2 as the employer, attesting that the documents were examined.',
+    {
+      employeeId: z.string().describe('Employee UUID'),
+      signatureText: z.string().describe('Full name of the signer'),
+      signerTitle: z.string().describe('Title of the signer'),
+      signerIpAddress: z.string().describe('IP address of the signer'),
+      agree: z.literal(true).describe('Signer agrees to the attestation'),
+      additionalInfo: z.string().optional().describe('Additional information'),
+      altProcedure: z.boolean().optional().describe('Documents were examined using a DHS-authorized alternative procedure'),
+    },
+    async ({ employeeId, ...data }) => {
+      try {
+        const result = await client.signI9EmployerSection(employeeId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, i9Authorization: safe(result) }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+// =============================================================================
+// Contractor Tools
+// =============================================================================
+
+function registerContractorTools(
+  server: McpServer,
+  client: GustoClient,
+  maxPageSize: number,
+  options: ToolOptions
+): void {
+  server.tool(
+    'gusto_list_contractors',
+    'List contractors for a company with pagination.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      ...paginationArgs,
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, page, per, all, format }) => {
+      try {
+        const result = await listPages(maxPageSize, { page, per, all }, (params) =>
+          client.listContractors(companyId, params)
+        );
+        return formatResponse(result, format, 'contractors');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_get_contractor',
+    'Get details of a contractor.',
+    {
+      contractorId: z.string().describe('Contractor UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ contractorId, format }) => {
+      try {
+        const result = await client.getContractor(contractorId);
+        return formatResponse(result, format, 'contractor');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_create_contractor',
+    'Create a new contractor.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      type: z.enum(['Individual', 'Business']).describe('Contractor type'),
+      wageType: z.enum(['Fixed', 'Hourly']).describe('Wage type'),
+      firstName: z.string().optional().describe('First name (for Individual)'),
+      lastName: z.string().optional().describe('Last name (for Individual)'),
+      businessName: z.string().optional().describe('Business name (for Business)'),
+      email: z.string().email().optional().describe('Email address'),
+      startDate: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+      selfOnboarding: z.boolean().optional().describe('Enable self-onboarding'),
+    },
+    async ({ companyId, ...data }) => {
+      try {
+        const result = await client.createContractor(companyId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, contractor: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_contractor',
+    'Update an existing contractor.',
+    {
+      contractorId: z.string().describe('Contractor UUID'),
+      firstName: z.string().optional(),
+      lastName: z.string().optional(),
+      businessName: z.string().optional(),
+      email: z.string().email().optional(),
+    },
+    async ({ contractorId, ...data }) => {
+      try {
+        const result = await client.updateContractor(contractorId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, contractor: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_delete_contractor',
+    'Delete a contractor.',
+    {
+      contractorId: z.string().describe('Contractor UUID'),
+    },
+    async ({ contractorId }) => {
+      try {
+        await client.deleteContractor(contractorId);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Contractor deleted' }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_get_contractor_onboarding_status',
+    'Get onboarding status for a contractor.',
+    {
+      contractorId: z.string().describe('Contractor UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ contractorId, format }) => {
+      try {
+        const result = await client.getContractorOnboardingStatus(contractorId);
+        return formatResponse(result, format, 'onboardingStatus');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_contractor_payments',
+    'List contractor payments for a company with pagination.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      startDate: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+      endDate: z.string().optional().describe('End date (YYYY-MM-DD)'),
+      contractorUuid: z.string().optional().describe('Filter by contractor UUID'),
+      ...paginationArgs,
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, startDate, endDate, contractorUuid, page, per, all, format }) => {
+      try {
+        const result = await listPages(maxPageSize, { page, per, all }, (params) =>
+          client.listContractorPayments(companyId, { ...params, startDate, endDate, contractorUuid })
+        );
+        return formatResponse(result, format, 'contractorPayments');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_contractor_payment_groups',
+    'List contractor payment groups (batches of contractor payments) for a company.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, format }) => {
+      try {
+        const result = await client.getContractorPaymentGroups(companyId);
+        return formatResponse(result, format, 'contractorPaymentGroups');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_create_contractor_payment',
+    'Create a contractor payment. The first call returns a preview and a confirmation token; call again with the token to pay.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      contractorUuid: z.string().describe('Contractor UUID'),
+      date: z.string().describe('Payment date (YYYY-MM-DD)'),
+      wage: z.string().optional().describe('Wage amount'),
+      hours: z.string().optional().describe('Hours worked'),
+      bonus: z.string().optional().describe('Bonus amount'),
+      reimbursement: z.string().optional().describe('Reimbursement amount'),
+      paymentMethod: z.enum(['Direct Deposit', 'Check', 'Historical Payment']).optional(),
+      confirmationToken: z.string().optional().describe('Token from the preview call'),
+    },
+    async ({ companyId, confirmationToken, ...data }) => {
+      try {
+        return await guardAction({
+          secret: options.confirmationSecret,
+          usedNonces: options.usedConfirmationNonces,
+          toolName: 'gusto_create_contractor_payment',
+          confirmationToken,
+          scope: {
+            action: 'create_contractor_payment',
+            subject: `${companyId}/${data.contractorUuid}`,
+            fingerprint: await fingerprint(data),
+          },
+          preview: async () => {
+            const contractor = await client.getContractor(data.contractorUuid);
+            return {
+              contractor: {
+                uuid: contractor.uuid,
+                name:
+                  contractor.type === 'Business'
+                    ? contractor.businessName
+                    : `${contractor.firstName || ''} ${contractor.lastName || ''}`.trim(),
+                wageType: contractor.wageType,
+                hourlyRate: contractor.hourlyRate,
+              },
+              payment: data,
+            };
+          },
+          run: async () => {
+            const result = await client.createContractorPayment(companyId, data);
+            return {
+              content: [{ type: 'text', text: JSON.stringify({ success: true, payment: result }, null, 2) }],
+            };
+          },
+        });
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_contractor_bank_accounts',
+    'List bank accounts for a contractor.',
+    {
+      contractorId: z.string().describe('Contractor UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ contractorId, format }) => {
+      try {
+        const result = await client.listContractorBankAccounts(contractorId);
+        return formatResponse(result, format, 'bankAccounts');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_create_contractor_bank_account',
+    'Add a bank account for a contractor.',
+    {
+      contractorId: z.string().describe('Contractor UUID'),
+      name: z.string().describe('Account nickname'),
+      routingNumber: z.string().describe('9-digit routing number'),
+      accountNumber: z.string().describe('Account number'),
+      accountType: z.enum(['Checking', 'Savings']).describe('Account type'),
+    },
+    async ({ contractorId, ...data }) => {
+      try {
+        const result = await client.createContractorBankAccount(contractorId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, bankAccount: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_contractor_forms',
+    'List forms for a contractor.',
+    {
+      contractorId: z.string().describe('Contractor UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ contractorId, format }) => {
+      try {
+        const result = await client.listContractorForms(contractorId);
+        return formatResponse(result, format, 'forms');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+// =============================================================================
+// Payroll Tools
+// =============================================================================
+
+/**
+ * Per-employee payroll input. The shortcuts map to Gusto's standard earning
+ * names; anything else can be passed by name in the compensation lists.
+ * Employees with several jobs need the lists, with a jobUuid on each entry.
+ */
+const payrollEmployeeInput = z.object({
+  employeeUuid: z.string().describe('Employee UUID'),
+  excluded: z.boolean().optional().describe('Exclude the employee from this payroll'),
+  regularHours: z.string().optional().describe('Regular hours worked (single-job employees only)'),
+  overtimeHours: z.string().optional().describe('Overtime hours worked (single-job employees only)'),
+  bonus: z.string().optional().describe('Bonus amount (single-job employees only)'),
+  reimbursement: z.string().optional().describe('Reimbursement amount (single-job employees only)'),
+  hourlyCompensations: z
+    .array(
+      z.object({
+        name: z.string().describe('Earning name, e.g. Regular Hours, Overtime, Double overtime'),
+        hours: z.string().describe('Hours worked'),
+        jobUuid: z
+          .string()
+          .optional()
+          .describe('Job UUID (required for employees with several jobs)'),
+      })
+    )
+    .optional(),
+  fixedCompensations: z
+    .array(
+      z.object({
+        name: z.string().describe('Earning name, e.g. Bonus, Commission, Reimbursement'),
+        amount: z.string().describe('Amount'),
+        jobUuid: z
+          .string()
+          .optional()
+          .describe('Job UUID (required for employees with several jobs)'),
+      })
+    )
+    .optional(),
+  paidTimeOff: z
+    .array(
+      z.object({
+        name: z.string().describe('Time off policy name, e.g. Vacation Hours'),
+        hours: z.string().describe('Hours taken'),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * Expand the input shortcuts into Gusto compensation entries
+ */
+function toCompensationChange(input: z.infer<typeof payrollEmployeeInput>): EmployeeCompensationChange {
+  const hourly = [...(input.hourlyCompensations ?? [])];
+  const fixed = [...(input.fixedCompensations ?? [])];
+  if (input.regularHours !== undefined) hourly.push({ name: 'Regular Hours', hours: input.regularHours });
+  if (input.overtimeHours !== undefined) hourly.push({ name: 'Overtime', hours: input.overtimeHours });
+  if (input.bonus !== undefined) fixed.push({ name: 'Bonus', amount: input.bonus });
+  if (input.reimbursement !== undefined) fixed.push({ name: 'Reimbursement', amount: input.reimbursement });
+
+  return {
+    employeeUuid: input.employeeUuid,
+    excluded: input.excluded,
+    hourlyCompensations: hourly,
+    fixedCompensations: fixed,
+    paidTimeOff: input.paidTimeOff,
+  };
+}
+
+/**
+ * How often gusto_run_payroll polls while Gusto calculates a payroll
+ */
+const PAYROLL_POLL_INTERVAL_MS = 2000;
+
+function registerPayrollTools(
+  server: McpServer,
+  client: GustoClient,
+  maxPageSize: number,
+  options: ToolOptions
+): void {
+  const { session } = options;
+
+  server.tool(
+    'gusto_list_payrolls',
+    'List payrolls for a company with pagination.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      startDate: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+      endDate: z.string().optional().describe('End date (YYYY-MM-DD)'),
+      processed: z.boolean().optional().describe('Filter by processed status'),
+      ...paginationArgs,
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, startDate, endDate, processed, page, per, all, format }) => {
+      try {
+        const result = await listPages(maxPageSize, { page, per, all }, (params) =>
+          client.listPayrolls(companyId, { ...params, startDate, endDate, processed })
+        );
+        recordPayrollVersions(session, result.items);
+        return formatResponse(result, format, 'payrolls');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_get_payroll',
+    'Get details of a specific payroll.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      payrollId: z.string().describe('Payroll UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, payrollId, format }) => {
+      try {
+        const result = await client.getPayroll(companyId, payrollId);
+        recordPayrollVersions(session, result);
+        return formatResponse(result, format, 'payroll');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_payroll',
+    'Enter hours, bonuses, reimbursements, time off and exclusions on an unprocessed payroll. Changes are merged into the current payroll (entries not mentioned are kept) and a before/after diff is returned. Recalculate the payroll before submitting.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      payrollId: z.string().describe('Payroll UUID'),
+      version: z
+        .string()
+        .optional()
+        .describe(
+          'Payroll version the changes are based on (default: the latest version seen in this session, else the current version)'
+        ),
+      employees: z.array(payrollEmployeeInput).min(1).describe('Changes, one entry per employee'),
+    },
+    async ({ companyId, payrollId, version, employees }) => {
+      try {
+        const before = await client.getPayroll(companyId, payrollId);
+        if (before.processed) {
+          throw new ValidationError('Payroll has already been processed and can no longer be edited.');
+        }
+
+        const current = before.employeeCompensations ?? [];
+        const changes = employees.map(toCompensationChange);
+        const result = await client.updatePayroll(companyId, payrollId, {
+          version: resolvePayrollVersion(session, before, version),
+          employeeCompensations: mergeEmployeeCompensations(current, changes),
+        });
+        recordPayrollVersions(session, result);
+
+        const diff = diffEmployeeCompensations(
+          current,
+          result.employeeCompensations ?? [],
+          changes.map((change) => change.employeeUuid)
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, version: result.version, changes: diff, payroll: result }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_calculate_payroll',
+    'Calculate a payroll (required before submitting).',
+    {
+      companyId: z.string().describe('Company UUID'),
+      payrollId: z.string().describe('Payroll UUID'),
+    },
+    async ({ companyId, payrollId }) => {
+      try {
+        const result = await client.calculatePayroll(companyId, payrollId);
+        recordPayrollVersions(session, result);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, payroll: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_submit_payroll',
+    'Submit a payroll for processing. The first call returns a preview (totals, employee count, check and debit dates) and a confirmation token; call again with the token to submit. The payroll version must not change in between, nor since it was last read in this session.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      payrollId: z.string().describe('Payroll UUID'),
+      version: z
+        .string()
+        .optional()
+        .describe(
+          'Payroll version that was reviewed (default: the latest version seen in this session)'
+        ),
+      confirmationToken: z.string().optional().describe('Token from the preview call'),
+    },
+    async ({ companyId, payrollId, version, confirmationToken }) => {
+      try {
+        const payroll = await client.getPayroll(companyId, payrollId);
+        assertPayrollVersion(session, payroll, version);
+        recordPayrollVersions(session, payroll);
+        return await guardAction({
+          secret: options.confirmationSecret,
+          usedNonces: options.usedConfirmationNonces,
+          toolName: 'gusto_submit_payroll',
+          confirmationToken,
+          scope: {
+            action: 'submit_payroll',
+            subject: `${companyId}/${payrollId}`,
+            version: payroll.version,
+          },
+          preview: () => buildPayrollPreview(payroll),
+          run: async () => {
+            const result = await client.submitPayroll(companyId, payrollId);
+            recordPayrollVersions(session, result);
+            return {
+              content: [{ type: 'text', text: JSON.stringify({ success: true, payroll: result }, null, 2) }],
+            };
+          },
+        });
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_run_payroll',
+    'Run a regular payroll end to end: finds the next unprocessed regular payroll (or uses payrollId), enters employee hours and pay, calculates it, waits for the calculation and checks payroll blockers. Stops at a review summary with a confirmation token; call again with the same arguments plus the token to submit.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      payrollId: z.string().optional().describe('Payroll UUID (default: the next unprocessed regular payroll)'),
+      employees: z
+        .array(payrollEmployeeInput)
+        .optional()
+        .describe('Hours, bonuses, reimbursements and time off to enter, one entry per employee'),
+      waitSeconds: z
+        .number()
+        .int()
+        .min(0)
+        .max(25)
+        .default(20)
+        .describe('Keep polling up to this many seconds while the payroll is calculating'),
+      confirmationToken: z.string().optional().describe('Token from the review call'),
+    },
+    async ({ companyId, payrollId, employees, waitSeconds, confirmationToken }) => {
+      try {
+        const id = payrollId ?? (await findNextRegularPayPeriod(client, companyId)).payrollUuid;
+        const scope = {
+          action: 'run_payroll',
+          subject: `${companyId}/${id}`,
+          fingerprint: await fingerprint(employees ?? []),
+        };
+        const submit = async (): Promise<ToolResponse> => {
+          const result = await client.submitPayroll(companyId, id);
+          recordPayrollVersions(session, result);
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ success: true, payroll: result }, null, 2) }],
+          };
+        };
+
+        let payroll = await client.getPayroll(companyId, id);
+        if (confirmationToken) {
+          return await guardAction({
+            secret: options.confirmationSecret,
+            usedNonces: options.usedConfirmationNonces,
+            toolName: 'gusto_run_payroll',
+            confirmationToken,
+            scope: { ...scope, version: payroll.version },
+            preview: () => buildPayrollPreview(payroll),
+            run: submit,
+          });
+        }
+        if (payroll.processed) {
+          throw new ValidationError('Payroll has already been processed.');
+        }
+
+        // Enter the changes, then calculate
+        let changes: CompensationDiff[] = [];
+        if (employees?.length) {
+          const current = payroll.employeeCompensations ?? [];
+          const updates = employees.map(toCompensationChange);
+          const updated = await client.updatePayroll(companyId, id, {
+            version: payroll.version,
+            employeeCompensations: mergeEmployeeCompensations(current, updates),
+          });
+          changes = diffEmployeeCompensations(
+            current,
+            updated.employeeCompensations ?? [],
+            updates.map((update) => update.employeeUuid)
+          );
+        }
+
+        const previousCalculation = payroll.calculatedAt;
+        const isCalculated = () => Boolean(payroll.calculatedAt) && payroll.calculatedAt !== previousCalculation;
+        const deadline = Date.now() + waitSeconds * 1000;
+        await client.calculatePayroll(companyId, id);
+        payroll = await client.getPayroll(companyId, id);
+        while (!isCalculated() && Date.now() + PAYROLL_POLL_INTERVAL_MS <= deadline) {
+          await sleep(PAYROLL_POLL_INTERVAL_MS);
+          payroll = await client.getPayroll(companyId, id);
+        }
+        recordPayrollVersions(session, payroll);
+
+        if (!isCalculated()) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    status: 'calculating',
+                    payrollId: id,
+                    changes,
+                    message:
+                      'Gusto is still calculating the payroll. Call gusto_run_payroll again with payrollId and without employees to continue.',
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        const blockers = await client.listPayrollBlockers(companyId);
+        if (blockers.length > 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    status: 'blocked',
+                    payrollId: id,
+                    blockers,
+                    changes,
+                    message: 'Payroll cannot be submitted until these blockers are resolved.',
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        const calculated = payroll;
+        return await guardAction({
+          secret: options.confirmationSecret,
+          usedNonces: options.usedConfirmationNonces,
+          toolName: 'gusto_run_payroll',
+          scope: { ...scope, version: calculated.version },
+          preview: () => ({
+            ...buildPayrollPreview(calculated),
+            changes,
+            employees: (calculated.employeeCompensations ?? [])
+              .filter((ec) => !ec.excluded)
+              .map((ec) => ({ employeeUuid: ec.employeeUuid, grossPay: ec.grossPay, netPay: ec.netPay })),
+          }),
+          run: submit,
+        });
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_cancel_payroll',
+    'Cancel a submitted payroll before its deadline, returning it to an unprocessed state. The first call returns a preview and a confirmation token; call again with the token to cancel. Refused once the payroll deadline has passed.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      payrollId: z.string().describe('Payroll UUID'),
+      confirmationToken: z.string().optional().describe('Token from the preview call'),
+    },
+    async ({ companyId, payrollId, confirmationToken }) => {
+      try {
+        const payroll = await client.getPayroll(companyId, payrollId);
+        if (!payroll.processed) {
+          throw new ValidationError('Only submitted payrolls can be cancelled. Edit or skip an unsubmitted payroll instead.');
+        }
+        assertBeforeDeadline(payroll, 'cancelled', 'Use gusto_reverse_payroll to request a reversal.');
+        return await guardAction({
+          secret: options.confirmationSecret,
+          usedNonces: options.usedConfirmationNonces,
+          toolName: 'gusto_cancel_payroll',
+          confirmationToken,
+          scope: {
+            action: 'cancel_payroll',
+            subject: `${companyId}/${payrollId}`,
+            version: payroll.version,
+          },
+          preview: () => buildPayrollPreview(payroll),
+          run: async () => {
+            const result = await client.cancelPayroll(companyId, payrollId);
+            recordPayrollVersions(session, result);
+            return {
+              content: [{ type: 'text', text: JSON.stringify({ success: true, payroll: result }, null, 2) }],
+            };
+          },
+        });
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_reverse_payroll',
+    'Request a reversal of a processed payroll whose deadline has passed. Refused before the deadline; cancel the payroll instead. The first call returns a preview and a confirmation token; call again with the same arguments plus the token to request the reversal.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      payrollId: z.string().describe('Payroll UUID'),
+      reason: z.string().describe('Why the payroll is being reversed'),
+      employeeUuids: z.array(z.string()).optional().describe('Reverse only these employees (default: everyone)'),
+      confirmationToken: z.string().optional().describe('Token from the preview call'),
+    },
+    async ({ companyId, payrollId, reason, employeeUuids, confirmationToken }) => {
+      try {
+        const payroll = await client.getPayroll(companyId, payrollId);
+        if (!payroll.processed) {
+          throw new ValidationError('Only processed payrolls can be reversed.');
+        }
+        assertPastDeadline(payroll, 'reversed', 'Cancel it with gusto_cancel_payroll instead.');
+        return await guardAction({
+          secret: options.confirmationSecret,
+          usedNonces: options.usedConfirmationNonces,
+          toolName: 'gusto_reverse_payroll',
+          confirmationToken,
+          scope: {
+            action: 'reverse_payroll',
+            subject: `${companyId}/${payrollId}`,
+            version: payroll.version,
+            fingerprint: await fingerprint({ reason, employeeUuids }),
+          },
+          preview: () => ({ ...buildPayrollPreview(payroll), reason, employeeUuids: employeeUuids ?? 'all' }),
+          run: async () => {
+            const result = await client.reversePayroll(companyId, payrollId, {
+              reason,
+              reversedEmployeeUuids: employeeUuids,
+            });
+            return {
+              content: [{ type: 'text', text: JSON.stringify({ success: true, reversal: result }, null, 2) }],
+            };
+          },
+        });
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_skip_payroll',
+    'Skip an unprocessed regular payroll so no one is paid for that pay period. The first call returns a preview and a confirmation token; call again with the same arguments plus the token to skip. Refused once the payroll deadline has passed.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      payrollId: z.string().describe('Payroll UUID'),
+      employeeUuids: z.array(z.string()).optional().describe('Skip only these employees (default: everyone)'),
+      confirmationToken: z.string().optional().describe('Token from the preview call'),
+    },
+    async ({ companyId, payrollId, employeeUuids, confirmationToken }) => {
+      try {
+        const payroll = await client.getPayroll(companyId, payrollId);
+        if (payroll.processed) {
+          throw new ValidationError('Payroll has already been processed. Cancel or reverse it instead.');
+        }
+        assertBeforeDeadline(payroll, 'skipped');
+        const { payPeriodStartDate: startDate, payPeriodEndDate: endDate, payScheduleUuid } = payroll;
+        if (!startDate || !endDate) {
+          throw new ValidationError('Payroll has no pay period, so it cannot be skipped.');
+        }
+        return await guardAction({
+          secret: options.confirmationSecret,
+          usedNonces: options.usedConfirmationNonces,
+          toolName: 'gusto_skip_payroll',
+          confirmationToken,
+          scope: {
+            action: 'skip_payroll',
+            subject: `${companyId}/${payrollId}`,
+            version: payroll.version,
+            fingerprint: await fingerprint({ employeeUuids }),
+          },
+          preview: () => ({ ...buildPayrollPreview(payroll), employeeUuids: employeeUuids ?? 'all' }),
+          run: async () => {
+            await client.skipPayroll(companyId, { payScheduleUuid, startDate, endDate, employeeUuids });
+            const periods = await client.getPayPeriods(companyId, { startDate, endDate });
+            const payPeriod = periods.find(
+              (period) =>
+                period.startDate === startDate && (!payScheduleUuid || period.payScheduleUuid === payScheduleUuid)
+            );
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ success: true, message: 'Payroll skipped', payPeriod }, null, 2),
+                },
+              ],
+            };
+          },
+        });
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_get_pay_stub',
+    "Get an employee's pay stub for a payroll: earnings, taxes, benefits, deductions, gross and net pay, plus the API link to the PDF. Use it to explain why a paycheck changed.",
+    {
+      companyId: z.string().describe('Company UUID'),
+      payrollId: z.string().describe('Payroll UUID'),
+      employeeId: z.string().describe('Employee UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, payrollId, employeeId, format }) => {
+      try {
+        const [stub, employee] = await Promise.all([
+          client.getPayStub(companyId, payrollId, employeeId),
+          client.getEmployee(employeeId),
+        ]);
+        const result = { ...stub, employeeName: `${employee.firstName || ''} ${employee.lastName || ''}`.trim() };
+        return formatResponse(result, format, 'payStub');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_employee_pay_stubs',
+    "List an employee's pay stubs (check date, gross and net pay per payroll) with pagination.",
+    {
+      employeeId: z.string().describe('Employee UUID'),
+      ...paginationArgs,
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ employeeId, page, per, all, format }) => {
+      try {
+        const result = await listPages(maxPageSize, { page, per, all }, (params) =>
+          client.listEmployeePayStubs(employeeId, params)
+        );
+        return formatResponse(result, format, 'payStubs');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_get_payroll_receipt',
+    'Get the receipt for a processed payroll: the company debit broken down into net pay, taxes, reimbursements and child support, with per-employee totals.',
+    {
+      payrollId: z.string().describe('Payroll UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ payrollId, format }) => {
+      try {
+        const result = await client.getPayrollReceipt(payrollId);
+        return formatResponse(result, format, 'payrollReceipt');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_create_off_cycle_payroll',
+    'Create an off-cycle payroll. The first call returns a preview and a confirmation token; call again with the token to create it.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      offCycleReason: z.enum(['Bonus', 'Correction', 'Dismissed Employee', 'Transition']).describe('Reason'),
+      checkDate: z.string().describe('Check date (YYYY-MM-DD)'),
+      startDate: z.string().optional().describe('Pay period start date'),
+      endDate: z.string().optional().describe('Pay period end date'),
+      employeeUuids: z.array(z.string()).optional().describe('Specific employee UUIDs'),
+      confirmationToken: z.string().optional().describe('Token from the preview call'),
+    },
+    async ({ companyId, confirmationToken, ...data }) => {
+      try {
+        return await guardAction({
+          secret: options.confirmationSecret,
+          usedNonces: options.usedConfirmationNonces,
+          toolName: 'gusto_create_off_cycle_payroll',
+          confirmationToken,
+          scope: {
+            action: 'create_off_cycle_payroll',
+            subject: companyId,
+            fingerprint: await fingerprint(data),
+          },
+          preview: async () => {
+            let employeeCount = data.employeeUuids?.length;
+            if (employeeCount === undefined) {
+              const employees = await listPages(maxPageSize, { all: true }, (params) =>
+                client.listEmployees(companyId, { ...params, terminated: false })
+              );
+              employeeCount = employees.total ?? employees.count;
+            }
+            return {
+              offCycleReason: data.offCycleReason,
+              checkDate: data.checkDate,
+              payPeriod: data.startDate && data.endDate ? `${data.startDate} - ${data.endDate}` : undefined,
+              employeeCount,
+              employeeUuids: data.employeeUuids,
+            };
+          },
+          run: async () => {
+            const result = await client.createOffCyclePayroll(companyId, data);
+            recordPayrollVersions(session, result);
+            return {
+              content: [{ type: 'text', text: JSON.stringify({ success: true, payroll: result }, null, 2) }],
+            };
+          },
+        });
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_payroll_blockers',
+    'List anything that currently prevents the company from running payroll (e.g. missing bank account verification or signatory).',
+    {
+      companyId: z.string().describe('Company UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, format }) => {
+      try {
+        const result = await client.listPayrollBlockers(companyId);
+        return formatResponse(result, format, 'payrollBlockers');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_check_payroll_readiness',
+    "Check whether the next regular payroll can be run. Combines Gusto's payroll blockers with the company bank account, signatory, unsigned company forms and the onboarding status of every employee on the payroll into one checklist.",
+    {
+      companyId: z.string().describe('Company UUID'),
+      payScheduleId: z.string().optional().describe('Pay schedule UUID (default: whichever pays next)'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, payScheduleId, format }) => {
+      try {
+        const result = await checkPayrollReadiness(client, companyId, payScheduleId);
+        return formatResponse(result, format, 'payrollReadiness');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_pay_schedules',
+    'List pay schedules for a company.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, format }) => {
+      try {
+        const result = await client.listPaySchedules(companyId);
+        return formatResponse(result, format, 'paySchedules');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_get_pay_schedule',
+    'Get details of a pay schedule.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      payScheduleId: z.string().describe('Pay schedule UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, payScheduleId, format }) => {
+      try {
+        const result = await client.getPaySchedule(companyId, payScheduleId);
+        return formatResponse(result, format, 'paySchedule');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_create_pay_schedule',
+    'Create a pay schedule.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      frequency: z.enum(['Every week', 'Every other week', 'Twice per month', 'Monthly']).describe('Pay frequency'),
+      anchorPayDate: z.string().describe('Anchor pay date (YYYY-MM-DD)'),
+      anchorEndOfPayPeriod: z.string().describe('Anchor end of pay period (YYYY-MM-DD)'),
+      name: z.string().optional().describe('Schedule name'),
+      autoPilot: z.boolean().optional().describe('Enable autopilot'),
+    },
+    async ({ companyId, ...data }) => {
+      try {
+        const result = await client.createPaySchedule(companyId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, paySchedule: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_pay_periods',
+    'List pay periods for a company.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      startDate: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+      endDate: z.string().optional().describe('End date (YYYY-MM-DD)'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, startDate, endDate, format }) => {
+      try {
+        const result = await client.getPayPeriods(companyId, { startDate, endDate });
+        return formatResponse(result, format, 'payPeriods');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_earning_types',
+    'List earning types for a company.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, format }) => {
+      try {
+        const result = await client.listEarningTypes(companyId);
+        return formatResponse(result, format, 'earningTypes');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_create_earning_type',
+    'Create a custom earning type.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      name: z.string().describe('Earning type name'),
+      description: z.string().optional().describe('Description'),
+    },
+    async ({ companyId, ...data }) => {
+      try {
+        const result = await client.createEarningType(companyId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, earningType: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_earning_type',
+    'Update a custom earning type.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      earningTypeId: z.string().describe('Earning type UUID'),
+      name: z.string().optional().describe('Earning type name'),
+      description: z.string().optional().describe('Description'),
+    },
+    async ({ companyId, earningTypeId, ...data }) => {
+      try {
+        const result = await client.updateEarningType(companyId, earningTypeId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, earningType: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_deactivate_earning_type',
+    'Deactivate a custom earning type.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      earningTypeId: z.string().describe('Earning type UUID'),
+    },
+    async ({ companyId, earningTypeId }) => {
+      try {
+        await client.deactivateEarningType(companyId, earningTypeId);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Earning type deactivated' }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_company_forms',
+    'List forms for a company.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, format }) => {
+      try {
+        const result = await client.listCompanyForms(companyId);
+        return formatResponse(result, format, 'forms');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_notifications',
+    'List notifications for a company.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, format }) => {
+      try {
+        const result = await client.listNotifications(companyId);
+        return formatResponse(result, format, 'notifications');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+// =============================================================================
+// External Payroll Tools
+// =============================================================================
+
+function registerExternalPayrollTools(
+  server: McpServer,
+  client: GustoClient,
+  maxPageSize: number
+): void {
+  server.tool(
+    'gusto_list_external_payrolls',
+    'List external payrolls (payroll history entered for a company that joined Gusto mid-year) with pagination.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      ...paginationArgs,
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, page, per, all, format }) => {
+      try {
+        const result = await listPages(maxPageSize, { page, per, all }, (params) =>
+          client.listExternalPayrolls(companyId, params)
+        );
+        return formatResponse(result, format, 'externalPayrolls');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_get_external_payroll',
+    'Get an external payroll, including its items and the earning types, taxes and benefits that may be entered.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      externalPayrollId: z.string().describe('External payroll UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, externalPayrollId, format }) => {
+      try {
+        const result = await client.getExternalPayroll(companyId, externalPayrollId);
+        return formatResponse(result, format, 'externalPayroll');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_create_external_payroll',
+    'Create an external payroll for a prior pay date.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      checkDate: z.string().describe('Check date (YYYY-MM-DD)'),
+      paymentPeriodStartDate: z.string().describe('Pay period start date (YYYY-MM-DD)'),
+      paymentPeriodEndDate: z.string().describe('Pay period end date (YYYY-MM-DD)'),
+    },
+    async ({ companyId, ...data }) => {
+      try {
+        const result = await client.createExternalPayroll(companyId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, externalPayroll: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_external_payroll_items',
+    'Enter earnings, taxes and benefits per employee on an external payroll. Use the IDs listed by gusto_get_external_payroll.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      externalPayrollId: z.string().describe('External payroll UUID'),
+      replaceFields: z.boolean().optional().describe('Replace existing amounts instead of merging'),
+      items: z
+        .array(
+          z.object({
+            employeeUuid: z.string().describe('Employee UUID'),
+            earnings: z
+              .array(
+                z.object({
+                  earningType: z.string().describe('Earning type (from applicableEarnings)'),
+                  earningId: z.number().int().describe('Earning ID (from applicableEarnings)'),
+                  amount: z.string().describe('Amount'),
+                  hours: z.string().optional().describe('Hours'),
+                })
+              )
+              .optional(),
+            taxes: z
+              .array(
+                z.object({
+                  taxId: z.number().int().describe('Tax ID (from applicableTaxes)'),
+                  amount: z.string().describe('Amount withheld or owed'),
+                })
+              )
+              .optional(),
+            benefits: z
+              .array(
+                z.object({
+                  benefitId: z.number().int().describe('Benefit ID (from applicableBenefits)'),
+                  employeeDeductionAmount: z.string().optional().describe('Employee deduction'),
+                  companyContributionAmount: z.string().optional().describe('Company contribution'),
+                })
+              )
+              .optional(),
+          })
+        )
+        .min(1)
+        .describe('Items per employee'),
+    },
+    async ({ companyId, externalPayrollId, items, replaceFields }) => {
+      try {
+        const result = await client.updateExternalPayrollItems(companyId, externalPayrollId, items, replaceFields);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, externalPayroll: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_delete_external_payroll',
+    'Delete an external payroll.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      externalPayrollId: z.string().describe('External payroll UUID'),
+    },
+    async ({ companyId, externalPayrollId }) => {
+      try {
+        await client.deleteExternalPayroll(companyId, externalPayrollId);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'External payroll deleted' }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_calculate_external_payroll_taxes',
+    'Calculate suggested tax amounts per employee from the earnings entered on an external payroll. Does not change the payroll.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      externalPayrollId: z.string().describe('External payroll UUID'),
+    },
+    async ({ companyId, externalPayrollId }) => {
+      try {
+        const result = await client.calculateExternalPayrollTaxes(companyId, externalPayrollId);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ taxSuggestions: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_get_external_payroll_tax_liabilities',
+    'Get the tax liabilities from external payrolls and the possible unpaid amounts for each tax.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, format }) => {
+      try {
+        const result = await client.getExternalPayrollTaxLiabilities(companyId);
+        return formatResponse(result, format, 'taxLiabilities');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_external_payroll_tax_liabilities',
+    'Select the unpaid amount for each tax liability from external payrolls.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      selections: z
+        .array(
+          z.object({
+            taxId: z.number().int().describe('Tax ID'),
+            lastUnpaidExternalPayrollUuid: z.string().describe('Last external payroll with an unpaid amount'),
+            unpaidLiabilityAmount: z.string().describe('Unpaid amount (one of the possible liabilities)'),
+          })
+        )
+        .min(1),
+    },
+    async ({ companyId, selections }) => {
+      try {
+        const result = await client.updateExternalPayrollTaxLiabilities(companyId, selections);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, taxLiabilities: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_finish_external_payroll_tax_liabilities',
+    'Finish entering external payrolls. This locks the selected tax liabilities; Gusto will collect any unpaid amounts.',
     {
       companyId: z.string().describe('Company UUID'),
-      payrollId: z.string().describe('Payroll UUID'),
     },
-    async ({ companyId, payrollId }) => {
+    async ({ companyId }) => {
       try {
-        const result = await client.calculatePayroll(companyId, payrollId);
+        await client.finishExternalPayrollTaxLiabilities(companyId);
         return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, payroll: result }, null, 2) }],
+          content: [
+            { type: 'text', text: JSON.stringify({ success: true, message: 'External payroll tax liabilities finished' }, null, 2) },
+          ],
         };
       } catch (error) {
         return formatError(error);
       }
     }
   );
+}
+
+// =============================================================================
+// Benefit Tools
+// =============================================================================
 
+function registerBenefitTools(
+  server: McpServer,
+  client: GustoClient,
+  maxPageSize: number
+): void {
   server.tool(
-    'gusto_submit_payroll',
-    'Submit a payroll for processing.',
+    'gusto_list_supported_benefits',
+    'List all supported benefit types.',
+    {
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ format }) => {
+      try {
+        const result = await client.listSupportedBenefits();
+        return formatResponse(result, format, 'supportedBenefits');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_company_benefits',
+    'List benefits for a company with pagination.',
     {
       companyId: z.string().describe('Company UUID'),
-      payrollId: z.string().describe('Payroll UUID'),
+      ...paginationArgs,
+      format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ companyId, payrollId }) => {
+    async ({ companyId, page, per, all, format }) => {
+      try {
+        const result = await listPages(maxPageSize, { page, per, all }, (params) =>
+          client.listCompanyBenefits(companyId, params)
+        );
+        return formatResponse(result, format, 'companyBenefits');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_create_company_benefit',
+    'Create a company benefit.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      benefitType: z.string().describe('Benefit type (from supported benefits)'),
+      description: z.string().optional().describe('Description'),
+      active: z.boolean().optional().describe('Is active'),
+    },
+    async ({ companyId, ...data }) => {
       try {
-        const result = await client.submitPayroll(companyId, payrollId);
+        const result = await client.createCompanyBenefit(companyId, data);
         return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, payroll: result }, null, 2) }],
+          content: [{ type: 'text', text: JSON.stringify({ success: true, benefit: result }, null, 2) }],
         };
       } catch (error) {
         return formatError(error);
@@ -907,21 +2999,249 @@ function registerPayrollTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_create_off_cycle_payroll',
-    'Create an off-cycle payroll.',
+    'gusto_get_company_benefit',
+    'Get details of a company benefit.',
+    {
+      benefitId: z.string().describe('Company benefit UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ benefitId, format }) => {
+      try {
+        const result = await client.getCompanyBenefit(benefitId);
+        return formatResponse(result, format, 'companyBenefit');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_company_benefit',
+    'Update a company benefit.',
+    {
+      benefitId: z.string().describe('Company benefit UUID'),
+      description: z.string().optional().describe('Description'),
+      active: z.boolean().optional().describe('Is active'),
+      responsibleForEmployerTaxes: z.boolean().optional().describe('Company pays the employer taxes on this benefit'),
+      responsibleForEmployeeW2: z.boolean().optional().describe('Company reports this benefit on employee W-2s'),
+    },
+    async ({ benefitId, ...data }) => {
+      try {
+        const result = await client.updateCompanyBenefit(benefitId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, benefit: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_delete_company_benefit',
+    'Delete a company benefit. Only benefits with no employee enrollments can be deleted.',
+    {
+      benefitId: z.string().describe('Company benefit UUID'),
+    },
+    async ({ benefitId }) => {
+      try {
+        await client.deleteCompanyBenefit(benefitId);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Benefit deleted' }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_list_employee_benefits',
+    'List benefits for an employee.',
+    {
+      employeeId: z.string().describe('Employee UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ employeeId, format }) => {
+      try {
+        const result = await client.listEmployeeBenefits(employeeId);
+        return formatResponse(result, format, 'employeeBenefits');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_create_employee_benefit',
+    'Create a benefit enrollment for an employee.',
+    {
+      employeeId: z.string().describe('Employee UUID'),
+      companyBenefitUuid: z.string().describe('Company benefit UUID'),
+      employeeDeduction: z.string().optional().describe('Employee deduction amount'),
+      companyContribution: z.string().optional().describe('Company contribution amount'),
+      deductAsPercentage: z.boolean().optional().describe('Deduct as percentage'),
+      contributeAsPercentage: z.boolean().optional().describe('Contribute as percentage'),
+      active: z.boolean().optional().describe('Is active'),
+    },
+    async ({ employeeId, ...data }) => {
+      try {
+        const result = await client.createEmployeeBenefit(employeeId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, benefit: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_get_employee_benefit',
+    'Get details of an employee benefit enrollment.',
+    {
+      benefitId: z.string().describe('Employee benefit UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ benefitId, format }) => {
+      try {
+        const result = await client.getEmployeeBenefit(benefitId);
+        return formatResponse(result, format, 'employeeBenefit');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_employee_benefit',
+    'Update an employee benefit enrollment.',
+    {
+      benefitId: z.string().describe('Employee benefit UUID'),
+      employeeDeduction: z.string().optional().describe('Employee deduction amount'),
+      companyContribution: z.string().optional().describe('Company contribution amount'),
+      deductAsPercentage: z.boolean().optional().describe('Deduct as percentage'),
+      contributeAsPercentage: z.boolean().optional().describe('Contribute as percentage'),
+      catchUp: z.boolean().optional().describe('Catch-up contributions (retirement benefits)'),
+      active: z.boolean().optional().describe('Is active'),
+    },
+    async ({ benefitId, ...data }) => {
+      try {
+        const result = await client.updateEmployeeBenefit(benefitId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, benefit: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_delete_employee_benefit',
+    'Delete an employee benefit enrollment.',
+    {
+      benefitId: z.string().describe('Employee benefit UUID'),
+    },
+    async ({ benefitId }) => {
+      try {
+        await client.deleteEmployeeBenefit(benefitId);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Benefit deleted' }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+// =============================================================================
+// Time Off Tools
+// =============================================================================
+
+function registerTimeOffTools(
+  server: McpServer,
+  client: GustoClient,
+  maxPageSize: number
+): void {
+  server.tool(
+    'gusto_list_time_off_policies',
+    'List time off policies for a company.',
     {
       companyId: z.string().describe('Company UUID'),
-      offCycleReason: z.enum(['Bonus', 'Correction', 'Dismissed Employee', 'Transition']).describe('Reason'),
-      checkDate: z.string().describe('Check date (YYYY-MM-DD)'),
-      startDate: z.string().optional().describe('Pay period start date'),
-      endDate: z.string().optional().describe('Pay period end date'),
-      employeeUuids: z.array(z.string()).optional().describe('Specific employee UUIDs'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ companyId, format }) => {
+      try {
+        const result = await client.listTimeOffPolicies(companyId);
+        return formatResponse(result, format, 'timeOffPolicies');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_get_time_off_policy',
+    'Get details of a time off policy.',
+    {
+      policyId: z.string().describe('Time off policy UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ policyId, format }) => {
+      try {
+        const result = await client.getTimeOffPolicy(policyId);
+        return formatResponse(result, format, 'timeOffPolicy');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_create_time_off_policy',
+    'Create a time off policy.',
+    {
+      companyId: z.string().describe('Company UUID'),
+      name: z.string().describe('Policy name'),
+      policyType: z.enum(['vacation', 'sick', 'holiday', 'bereavement', 'jury_duty', 'other']).describe('Policy type'),
+      accrualMethod: z.enum(['unlimited', 'per_pay_period', 'per_calendar_year']).describe('Accrual method'),
+      accrualRate: z.string().optional().describe('Accrual rate'),
+      paidOutOnTermination: z.boolean().optional().describe('Paid out on termination'),
+    },
+    async ({ companyId, ...data }) => {
+      try {
+        const result = await client.createTimeOffPolicy(companyId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, policy: result }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_update_time_off_policy',
+    'Update a time off policy.',
+    {
+      policyId: z.string().describe('Time off policy UUID'),
+      name: z.string().optional().describe('Policy name'),
+      accrualMethod: z.enum(['unlimited', 'per_pay_period', 'per_calendar_year']).optional().describe('Accrual method'),
+      accrualRate: z.string().optional().describe('Accrual rate'),
+      accrualRateUnit: z.string().optional().describe('Hours worked per accrual rate unit'),
+      paidOutOnTermination: z.boolean().optional().describe('Paid out on termination'),
+      accrualWaitingPeriodDays: z.number().int().min(0).optional().describe('Days before accrual starts'),
+      carryoverLimitHours: z.string().optional().describe('Hours carried over into the next year'),
+      maxAccrualHoursPerYear: z.string().optional().describe('Maximum hours accrued per year'),
+      maxHours: z.string().optional().describe('Maximum balance in hours'),
     },
-    async ({ companyId, ...data }) => {
+    async ({ policyId, ...data }) => {
       try {
-        const result = await client.createOffCyclePayroll(companyId, data);
+        const result = await client.updateTimeOffPolicy(policyId, data);
         return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, payroll: result }, null, 2) }],
+          content: [{ type: 'text', text: JSON.stringify({ success: true, policy: result }, null, 2) }],
         };
       } catch (error) {
         return formatError(error);
@@ -930,16 +3250,18 @@ function registerPayrollTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_pay_schedules',
-    'List pay schedules for a company.',
+    'gusto_add_employees_to_time_off_policy',
+    'Add employees to a time off policy.',
     {
-      companyId: z.string().describe('Company UUID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      policyId: z.string().describe('Time off policy UUID'),
+      employeeUuids: z.array(z.string()).describe('Employee UUIDs to add'),
     },
-    async ({ companyId, format }) => {
+    async ({ policyId, employeeUuids }) => {
       try {
-        const result = await client.listPaySchedules(companyId);
-        return formatResponse(result, format, 'paySchedules');
+        await client.addEmployeesToTimeOffPolicy(policyId, employeeUuids);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Employees added to policy' }, null, 2) }],
+        };
       } catch (error) {
         return formatError(error);
       }
@@ -947,21 +3269,17 @@ function registerPayrollTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_create_pay_schedule',
-    'Create a pay schedule.',
+    'gusto_remove_employees_from_time_off_policy',
+    'Remove employees from a time off policy.',
     {
-      companyId: z.string().describe('Company UUID'),
-      frequency: z.enum(['Every week', 'Every other week', 'Twice per month', 'Monthly']).describe('Pay frequency'),
-      anchorPayDate: z.string().describe('Anchor pay date (YYYY-MM-DD)'),
-      anchorEndOfPayPeriod: z.string().describe('Anchor end of pay period (YYYY-MM-DD)'),
-      name: z.string().optional().describe('Schedule name'),
-      autoPilot: z.boolean().optional().describe('Enable autopilot'),
+      policyId: z.string().describe('Time off policy UUID'),
+      employeeUuids: z.array(z.string()).describe('Employee UUIDs to remove'),
     },
-    async ({ companyId, ...data }) => {
+    async ({ policyId, employeeUuids }) => {
       try {
-        const result = await client.createPaySchedule(companyId, data);
+        await client.removeEmployeesFromTimeOffPolicy(policyId, employeeUuids);
         return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, paySchedule: result }, null, 2) }],
+          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Employees removed from policy' }, null, 2) }],
         };
       } catch (error) {
         return formatError(error);
@@ -970,18 +3288,23 @@ function registerPayrollTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_pay_periods',
-    'List pay periods for a company.',
+    'gusto_list_time_off_requests',
+    'List time off requests for a company. Requests overlapping the date range are returned, so a week range answers "who is out that week?".',
     {
       companyId: z.string().describe('Company UUID'),
-      startDate: z.string().optional().describe('Start date (YYYY-MM-DD)'),
-      endDate: z.string().optional().describe('End date (YYYY-MM-DD)'),
+      startDate: z.string().optional().describe('Range start date (YYYY-MM-DD)'),
+      endDate: z.string().optional().describe('Range end date (YYYY-MM-DD)'),
+      status: z.enum(['pending', 'approved', 'denied']).optional().describe('Filter by status'),
+      employeeUuid: z.string().optional().describe('Filter by employee UUID'),
+      ...paginationArgs,
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ companyId, startDate, endDate, format }) => {
+    async ({ companyId, page, per, all, format, ...filters }) => {
       try {
-        const result = await client.getPayPeriods(companyId, { startDate, endDate });
-        return formatResponse(result, format, 'payPeriods');
+        const result = await listPages(maxPageSize, { page, per, all }, (params) =>
+          client.listTimeOffRequests(companyId, { ...params, ...filters })
+        );
+        return formatResponse(result, format, 'timeOffRequests');
       } catch (error) {
         return formatError(error);
       }
@@ -989,16 +3312,17 @@ function registerPayrollTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_earning_types',
-    'List earning types for a company.',
+    'gusto_get_time_off_request',
+    'Get details of a time off request.',
     {
       companyId: z.string().describe('Company UUID'),
+      requestId: z.string().describe('Time off request UUID'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ companyId, format }) => {
+    async ({ companyId, requestId, format }) => {
       try {
-        const result = await client.listEarningTypes(companyId);
-        return formatResponse(result, format, 'earningTypes');
+        const result = await client.getTimeOffRequest(companyId, requestId);
+        return formatResponse(result, format, 'timeOffRequest');
       } catch (error) {
         return formatError(error);
       }
@@ -1006,18 +3330,23 @@ function registerPayrollTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_create_earning_type',
-    'Create a custom earning type.',
+    'gusto_create_time_off_request',
+    'Create a time off request for an employee.',
     {
       companyId: z.string().describe('Company UUID'),
-      name: z.string().describe('Earning type name'),
-      description: z.string().optional().describe('Description'),
+      employeeUuid: z.string().describe('Employee UUID'),
+      timeOffPolicyUuid: z.string().optional().describe('Time off policy UUID'),
+      requestType: z.enum(['vacation', 'sick']).optional().describe('Type of time off'),
+      startDate: z.string().describe('First day off (YYYY-MM-DD)'),
+      endDate: z.string().describe('Last day off (YYYY-MM-DD)'),
+      hoursPerDay: z.string().optional().describe('Hours off per day (default: full day)'),
+      employeeNote: z.string().optional().describe('Note from the employee'),
     },
     async ({ companyId, ...data }) => {
       try {
-        const result = await client.createEarningType(companyId, data);
+        const result = await client.createTimeOffRequest(companyId, data);
         return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, earningType: result }, null, 2) }],
+          content: [{ type: 'text', text: JSON.stringify({ success: true, timeOffRequest: result }, null, 2) }],
         };
       } catch (error) {
         return formatError(error);
@@ -1026,16 +3355,19 @@ function registerPayrollTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_company_forms',
-    'List forms for a company.',
+    'gusto_approve_time_off_request',
+    'Approve a pending time off request.',
     {
       companyId: z.string().describe('Company UUID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      requestId: z.string().describe('Time off request UUID'),
+      approverNote: z.string().optional().describe('Note to the employee'),
     },
-    async ({ companyId, format }) => {
+    async ({ companyId, requestId, approverNote }) => {
       try {
-        const result = await client.listCompanyForms(companyId);
-        return formatResponse(result, format, 'forms');
+        const result = await client.approveTimeOffRequest(companyId, requestId, approverNote);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, timeOffRequest: result }, null, 2) }],
+        };
       } catch (error) {
         return formatError(error);
       }
@@ -1043,38 +3375,37 @@ function registerPayrollTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_notifications',
-    'List notifications for a company.',
+    'gusto_deny_time_off_request',
+    'Deny a pending time off request.',
     {
       companyId: z.string().describe('Company UUID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      requestId: z.string().describe('Time off request UUID'),
+      approverNote: z.string().optional().describe('Reason shown to the employee'),
     },
-    async ({ companyId, format }) => {
+    async ({ companyId, requestId, approverNote }) => {
       try {
-        const result = await client.listNotifications(companyId);
-        return formatResponse(result, format, 'notifications');
+        const result = await client.denyTimeOffRequest(companyId, requestId, approverNote);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, timeOffRequest: result }, null, 2) }],
+        };
       } catch (error) {
         return formatError(error);
       }
     }
   );
-}
-
-// =============================================================================
-// Benefit Tools
-// =============================================================================
 
-function registerBenefitTools(server: McpServer, client: GustoClient): void {
   server.tool(
-    'gusto_list_supported_benefits',
-    'List all supported benefit types.',
+    'gusto_list_time_off_activities',
+    "List an employee's time off balance activity (accruals, usage and adjustments).",
     {
+      employeeId: z.string().describe('Employee UUID'),
+      timeOffType: z.enum(['vacation', 'sick']).optional().describe('Type of time off'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ format }) => {
+    async ({ employeeId, timeOffType, format }) => {
       try {
-        const result = await client.listSupportedBenefits();
-        return formatResponse(result, format, 'supportedBenefits');
+        const result = await client.listTimeOffActivities(employeeId, timeOffType);
+        return formatResponse(result, format, 'timeOffActivities');
       } catch (error) {
         return formatError(error);
       }
@@ -1082,16 +3413,21 @@ function registerBenefitTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_company_benefits',
-    'List benefits for a company.',
+    'gusto_get_holiday_pay_policy',
+    'Get the holiday pay policy for a company.',
     {
       companyId: z.string().describe('Company UUID'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
     async ({ companyId, format }) => {
       try {
-        const result = await client.listCompanyBenefits(companyId);
-        return formatResponse(result, format, 'companyBenefits');
+        const result = await client.getHolidayPayPolicy(companyId);
+        if (!result) {
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ message: 'No holiday pay policy found' }, null, 2) }],
+          };
+        }
+        return formatResponse(result, format, 'holidayPayPolicy');
       } catch (error) {
         return formatError(error);
       }
@@ -1099,19 +3435,25 @@ function registerBenefitTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_create_company_benefit',
-    'Create a company benefit.',
+    'gusto_create_holiday_pay_policy',
+    'Create the holiday pay policy for a company.',
     {
       companyId: z.string().describe('Company UUID'),
-      benefitType: z.string().describe('Benefit type (from supported benefits)'),
-      description: z.string().optional().describe('Description'),
-      active: z.boolean().optional().describe('Is active'),
+      name: z.string().optional().describe('Policy name'),
+      federalHolidays: z
+        .array(z.string())
+        .optional()
+        .describe('Federal holidays to pay, e.g. new_years_day, independence_day, christmas_day'),
+      customHolidays: z
+        .array(z.object({ name: z.string().describe('Holiday name'), date: z.string().describe('Date (YYYY-MM-DD)') }))
+        .optional()
+        .describe('Company-specific holidays'),
     },
     async ({ companyId, ...data }) => {
       try {
-        const result = await client.createCompanyBenefit(companyId, data);
+        const result = await client.createHolidayPayPolicy(companyId, data);
         return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, benefit: result }, null, 2) }],
+          content: [{ type: 'text', text: JSON.stringify({ success: true, holidayPayPolicy: result }, null, 2) }],
         };
       } catch (error) {
         return formatError(error);
@@ -1120,80 +3462,144 @@ function registerBenefitTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_list_employee_benefits',
-    'List benefits for an employee.',
+    'gusto_update_holiday_pay_policy',
+    'Update the holiday pay policy for a company.',
     {
-      employeeId: z.string().describe('Employee UUID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      companyId: z.string().describe('Company UUID'),
+      name: z.string().optional().describe('Policy name'),
+      federalHolidays: z
+        .array(z.string())
+        .optional()
+        .describe('Federal holidays to pay, e.g. new_years_day, independence_day, christmas_day'),
+      customHolidays: z
+        .array(z.object({ name: z.string().describe('Holiday name'), date: z.string().describe('Date (YYYY-MM-DD)') }))
+        .optional()
+        .describe('Company-specific holidays'),
     },
-    async ({ employeeId, format }) => {
+    async ({ companyId, ...data }) => {
       try {
-        const result = await client.listEmployeeBenefits(employeeId);
-        return formatResponse(result, format, 'employeeBenefits');
+        const result = await client.updateHolidayPayPolicy(companyId, data);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, holidayPayPolicy: result }, null, 2) }],
+        };
       } catch (error) {
         return formatError(error);
       }
     }
   );
+}
+
+// =============================================================================
+// Report Tools
+// =============================================================================
+
+/**
+ * How often gusto_get_report polls while waiting for a report
+ */
+const REPORT_POLL_INTERVAL_MS = 2000;
 
+function registerReportTools(server: McpServer, client: GustoClient): void {
   server.tool(
-    'gusto_create_employee_benefit',
-    'Create a benefit enrollment for an employee.',
+    'gusto_create_report',
+    'Request a custom report (e.g. a payroll journal or tax summary). Column and grouping names follow the Gusto custom report API. Returns a request UUID; fetch the result with gusto_get_report.',
     {
-      employeeId: z.string().describe('Employee UUID'),
-      companyBenefitUuid: z.string().describe('Company benefit UUID'),
-      employeeDeduction: z.string().optional().describe('Employee deduction amount'),
-      companyContribution: z.string().optional().describe('Company contribution amount'),
-      deductAsPercentage: z.boolean().optional().describe('Deduct as percentage'),
-      contributeAsPercentage: z.boolean().optional().describe('Contribute as percentage'),
-      active: z.boolean().optional().describe('Is active'),
+      companyId: z.string().describe('Company UUID'),
+      columns: z.array(z.string()).min(1).describe('Report columns (e.g. employee_first_name, gross_earnings, employee_taxes, net_pay)'),
+      groupings: z.array(z.string()).optional().describe('Row groupings (e.g. payroll, employee)'),
+      startDate: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+      endDate: z.string().optional().describe('End date (YYYY-MM-DD)'),
+      customName: z.string().optional().describe('Report name'),
+      withTotals: z.boolean().optional().describe('Include a totals row'),
+      employmentType: z
+        .enum(['exempt', 'salaried_nonexempt', 'nonexempt', 'commission_only_exempt', 'commission_only_nonexempt'])
+        .optional()
+        .describe('Filter by employment type'),
+      employmentStatus: z
+        .enum([
+          'active',
+          'active_full_time',
+          'active_part_time',
+          'active_part_time_eligible',
+          'active_variable',
+          'active_seasonal',
+          'dismissed',
+        ])
+        .optional()
+        .describe('Filter by employment status'),
+      employeeUuids: z.array(z.string()).optional().describe('Only include these employees'),
+      departmentUuids: z.array(z.string()).optional().describe('Only include these departments'),
+      workAddressUuids: z.array(z.string()).optional().describe('Only include these work addresses'),
     },
-    async ({ employeeId, ...data }) => {
+    async ({ companyId, ...data }) => {
       try {
-        const result = await client.createEmployeeBenefit(employeeId, data);
+        const result = await client.createReport(companyId, data);
         return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, benefit: result }, null, 2) }],
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  report: result,
+                  message: `Report requested. Call gusto_get_report with requestUuid ${result.requestUuid} to fetch it.`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
         };
       } catch (error) {
         return formatError(error);
       }
     }
   );
-}
-
-// =============================================================================
-// Time Off Tools
-// =============================================================================
 
-function registerTimeOffTools(server: McpServer, client: GustoClient): void {
   server.tool(
-    'gusto_list_time_off_policies',
-    'List time off policies for a company.',
+    'gusto_get_report',
+    'Get a report requested with gusto_create_report. Completed reports return parsed rows as JSON, a Markdown table or CSV; otherwise the status is returned.',
     {
-      companyId: z.string().describe('Company UUID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      requestUuid: z.string().describe('Report request UUID'),
+      waitSeconds: z.number().int().min(0).max(25).default(0).describe('Keep polling up to this many seconds while the report is pending'),
+      format: z.enum(['json', 'markdown', 'csv']).default('json'),
     },
-    async ({ companyId, format }) => {
+    async ({ requestUuid, waitSeconds, format }) => {
       try {
-        const result = await client.listTimeOffPolicies(companyId);
-        return formatResponse(result, format, 'timeOffPolicies');
+        const deadline = Date.now() + waitSeconds * 1000;
+        let report = await client.getReport(requestUuid);
+        while (report.status === 'pending' && Date.now() + REPORT_POLL_INTERVAL_MS <= deadline) {
+          await sleep(REPORT_POLL_INTERVAL_MS);
+          report = await client.getReport(requestUuid);
+        }
+        return formatReport(report, format);
       } catch (error) {
         return formatError(error);
       }
     }
   );
+}
 
+// =============================================================================
+// Webhook Tools
+// =============================================================================
+
+function registerWebhookTools(
+  server: McpServer,
+  client: GustoClient,
+  webhookKv: KVNamespace | undefined,
+  eventCursors: EventCursorStore | undefined,
+  characterLimit: number
+): void {
   server.tool(
-    'gusto_get_time_off_policy',
-    'Get details of a time off policy.',
+    'gusto_list_webhook_subscriptions',
+    'List all webhook subscriptions.',
     {
-      policyId: z.string().describe('Time off policy UUID'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ policyId, format }) => {
+    async ({ format }) => {
       try {
-        const result = await client.getTimeOffPolicy(policyId);
-        return formatResponse(result, format, 'timeOffPolicy');
+        const result = await client.listWebhookSubscriptions();
+        return formatResponse(result, format, 'webhookSubscriptions');
       } catch (error) {
         return formatError(error);
       }
@@ -1201,22 +3607,16 @@ function registerTimeOffTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_create_time_off_policy',
-    'Create a time off policy.',
+    'gusto_get_webhook_subscription',
+    'Get details of a webhook subscription.',
     {
-      companyId: z.string().describe('Company UUID'),
-      name: z.string().describe('Policy name'),
-      policyType: z.enum(['vacation', 'sick', 'holiday', 'bereavement', 'jury_duty', 'other']).describe('Policy type'),
-      accrualMethod: z.enum(['unlimited', 'per_pay_period', 'per_calendar_year']).describe('Accrual method'),
-      accrualRate: z.string().optional().describe('Accrual rate'),
-      paidOutOnTermination: z.boolean().optional().describe('Paid out on termination'),
+      subscriptionId: z.string().describe('Subscription UUID'),
+      format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ companyId, ...data }) => {
+    async ({ subscriptionId, format }) => {
       try {
-        const result = await client.createTimeOffPolicy(companyId, data);
-        return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, policy: result }, null, 2) }],
-        };
+        const result = await client.getWebhookSubscription(subscriptionId);
+        return formatResponse(result, format, 'webhookSubscription');
       } catch (error) {
         return formatError(error);
       }
@@ -1224,17 +3624,17 @@ function registerTimeOffTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_add_employees_to_time_off_policy',
-    'Add employees to a time off policy.',
+    'gusto_create_webhook_subscription',
+    'Create a webhook subscription.',
     {
-      policyId: z.string().describe('Time off policy UUID'),
-      employeeUuids: z.array(z.string()).describe('Employee UUIDs to add'),
+      url: z.string().url().describe('Webhook URL'),
+      subscriptionTypes: z.array(z.string()).describe('Event types to subscribe to'),
     },
-    async ({ policyId, employeeUuids }) => {
+    async ({ url, subscriptionTypes }) => {
       try {
-        await client.addEmployeesToTimeOffPolicy(policyId, employeeUuids);
+        const result = await client.createWebhookSubscription({ url, subscriptionTypes });
         return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Employees added to policy' }, null, 2) }],
+          content: [{ type: 'text', text: JSON.stringify({ success: true, subscription: result }, null, 2) }],
         };
       } catch (error) {
         return formatError(error);
@@ -1243,43 +3643,36 @@ function registerTimeOffTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_get_holiday_pay_policy',
-    'Get the holiday pay policy for a company.',
+    'gusto_update_webhook_subscription',
+    'Update the event types of a webhook subscription.',
     {
-      companyId: z.string().describe('Company UUID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      subscriptionId: z.string().describe('Subscription UUID'),
+      subscriptionTypes: z.array(z.string()).describe('Event types to subscribe to'),
     },
-    async ({ companyId, format }) => {
+    async ({ subscriptionId, subscriptionTypes }) => {
       try {
-        const result = await client.getHolidayPayPolicy(companyId);
-        if (!result) {
-          return {
-            content: [{ type: 'text', text: JSON.stringify({ message: 'No holiday pay policy found' }, null, 2) }],
-          };
-        }
-        return formatResponse(result, format, 'holidayPayPolicy');
+        const result = await client.updateWebhookSubscription(subscriptionId, { subscriptionTypes });
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, subscription: result }, null, 2) }],
+        };
       } catch (error) {
         return formatError(error);
       }
     }
   );
-}
-
-// =============================================================================
-// Webhook Tools
-// =============================================================================
 
-function registerWebhookTools(server: McpServer, client: GustoClient): void {
   server.tool(
-    'gusto_list_webhook_subscriptions',
-    'List all webhook subscriptions.',
+    'gusto_delete_webhook_subscription',
+    'Delete a webhook subscription.',
     {
-      format: z.enum(['json', 'markdown']).default('json'),
+      subscriptionId: z.string().describe('Subscription UUID'),
     },
-    async ({ format }) => {
+    async ({ subscriptionId }) => {
       try {
-        const result = await client.listWebhookSubscriptions();
-        return formatResponse(result, format, 'webhookSubscriptions');
+        await client.deleteWebhookSubscription(subscriptionId);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Subscription deleted' }, null, 2) }],
+        };
       } catch (error) {
         return formatError(error);
       }
@@ -1287,17 +3680,16 @@ function registerWebhookTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_create_webhook_subscription',
-    'Create a webhook subscription.',
+    'gusto_request_webhook_verification_token',
+    'Ask Gusto to send a new verification token to the subscription URL. A pending subscription needs it for gusto_verify_webhook_subscription.',
     {
-      url: z.string().url().describe('Webhook URL'),
-      subscriptionTypes: z.array(z.string()).describe('Event types to subscribe to'),
+      subscriptionId: z.string().describe('Subscription UUID'),
     },
-    async ({ url, subscriptionTypes }) => {
+    async ({ subscriptionId }) => {
       try {
-        const result = await client.createWebhookSubscription({ url, subscriptionTypes });
+        await client.requestWebhookVerificationToken(subscriptionId);
         return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, subscription: result }, null, 2) }],
+          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Gusto is sending a verification token to the subscription URL' }, null, 2) }],
         };
       } catch (error) {
         return formatError(error);
@@ -1306,16 +3698,35 @@ function registerWebhookTools(server: McpServer, client: GustoClient): void {
   );
 
   server.tool(
-    'gusto_delete_webhook_subscription',
-    'Delete a webhook subscription.',
+    'gusto_verify_webhook_subscription',
+    'Verify a pending webhook subscription with the token Gusto sent to its URL. If verificationToken is omitted, the token received by this server on /webhooks/gusto is used.',
     {
       subscriptionId: z.string().describe('Subscription UUID'),
+      verificationToken: z.string().optional().describe('Verification token (defaults to the one received on /webhooks/gusto)'),
     },
-    async ({ subscriptionId }) => {
+    async ({ subscriptionId, verificationToken }) => {
       try {
-        await client.deleteWebhookSubscription(subscriptionId);
+        const stored = webhookKv ? await getVerificationToken(webhookKv, subscriptionId) : null;
+        const token = verificationToken ?? stored?.verificationToken;
+        if (!token) {
+          throw new ValidationError(
+            `No verification token has been received for subscription ${subscriptionId}. Call gusto_request_webhook_verification_token, or pass verificationToken.`
+          );
+        }
+
+        const result = await client.verifyWebhookSubscription(subscriptionId, token);
+
+        // Gusto accepted the token, so the receiver can trust its signatures
+        if (webhookKv) {
+          await putVerificationToken(webhookKv, {
+            subscriptionUuid: subscriptionId,
+            verificationToken: token,
+            receivedAt: stored?.verificationToken === token ? stored.receivedAt : Date.now(),
+            verifiedAt: Date.now(),
+          });
+        }
         return {
-          content: [{ type: 'text', text: JSON.stringify({ success: true, message: 'Subscription deleted' }, null, 2) }],
+          content: [{ type: 'text', text: JSON.stringify({ success: true, subscription: result }, null, 2) }],
         };
       } catch (error) {
         return formatError(error);
@@ -1342,4 +3753,33 @@ function registerWebhookTools(server: McpServer, client: GustoClient): void {
       }
     }
   );
+
+  server.tool(
+    'gusto_poll_changes',
+    'Return the events since the last poll, grouped by resource type, and remember where this poll stopped. Set hydrate to also fetch the current state of each changed record (e.g. the employee for employee.updated).',
+    {
+      cursorName: z.string().min(1).default('default').describe('Cursor to read and advance; use one per sync job or filter'),
+      startingAfterUuid: z.string().optional().describe('Read after this event UUID instead of the stored cursor'),
+      resourceType: z.string().optional().describe('Only read events for this resource type'),
+      eventTypes: z.array(z.string()).optional().describe('Only return these event types, e.g. employee.updated'),
+      limit: z.number().int().min(1).max(100).default(100).describe('Maximum events to read'),
+      hydrate: z.boolean().default(false).describe('Fetch the record each event refers to'),
+      advance: z.boolean().default(true).describe('Store the new cursor position (false to peek)'),
+    },
+    async (params) => {
+      try {
+        // Fit the feed to the response limit, so truncation never hides
+        // events the cursor has moved past
+        const result = await pollChanges(client, eventCursors, {
+          ...params,
+          maxChars: characterLimit,
+        });
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
 }
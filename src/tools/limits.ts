@@ -0,0 +1,32 @@
+/**
+ * Response Limits
+ *
+ * Keeps tool output within CHARACTER_LIMIT so a single large response (a
+ * payroll with every employee compensation, a long list page) cannot flood
+ * the model context.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { type ToolResponse, truncateResponse } from '../utils/formatters.js';
+
+/**
+ * Wrap a server so every registered tool handler truncates its response
+ */
+export function limitResponses(server: McpServer, characterLimit: number): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop === 'tool' || prop === 'registerTool') {
+        const register = Reflect.get(target, prop, receiver) as (...args: unknown[]) => unknown;
+        return (...args: unknown[]) => {
+          const handler = args[args.length - 1];
+          if (typeof handler === 'function') {
+            args[args.length - 1] = async (...handlerArgs: unknown[]) =>
+              truncateResponse((await handler(...handlerArgs)) as ToolResponse, characterLimit);
+          }
+          return register.apply(target, args);
+        };
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+}
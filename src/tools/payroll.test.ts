@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import type { Payroll } from '../types/entities.js';
+import { ValidationError } from '../utils/errors.js';
+import { assertBeforeDeadline, assertPastDeadline } from './payroll.js';
+
+const past = { payrollDeadline: new Date(Date.now() - 60_000).toISOString() } as Payroll;
+const future = { payrollDeadline: new Date(Date.now() + 60_000).toISOString() } as Payroll;
+
+describe('payroll deadlines', () => {
+  it('allows cancelling only before the deadline', () => {
+    expect(() => assertBeforeDeadline(future, 'cancelled')).not.toThrow();
+    expect(() => assertBeforeDeadline(past, 'cancelled')).toThrow(ValidationError);
+  });
+
+  it('allows reversing only after the deadline', () => {
+    expect(() => assertPastDeadline(past, 'reversed')).not.toThrow();
+    expect(() => assertPastDeadline(future, 'reversed', 'Cancel it instead.')).toThrow(
+      'has not passed yet, so this payroll cannot be reversed. Cancel it instead.'
+    );
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Payroll Workflow Helpers
+ *
+ * Shared by the higher-level payroll tools: locating the next regular
+ * payroll and checking whether a company is ready to run it.
+ */
+
+import type { GustoClient } from '../client.js';
+import type {
+  PayPeriod,
+  Payroll,
+  PayrollReadiness,
+  PayrollReadinessCheck,
+} from '../types/entities.js';
+import { ValidationError } from '../utils/errors.js';
+
+/**
+ * Days either side of today searched for the next unprocessed payroll
+ */
+const PAY_PERIOD_WINDOW_DAYS = 90;
+
+/**
+ * How many onboarding statuses are fetched at once
+ */
+const ONBOARDING_BATCH_SIZE = 5;
+
+/**
+ * Find the unprocessed regular pay period with the earliest check date,
+ * optionally limited to one pay schedule
+ */
+export async function findNextRegularPayPeriod(
+  client: GustoClient,
+  companyId: string,
+  payScheduleUuid?: string
+): Promise<PayPeriod & { payrollUuid: string }> {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const toDate = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+  const periods = await client.getPayPeriods(companyId, {
+    startDate: toDate(Date.now() - PAY_PERIOD_WINDOW_DAYS * dayMs),
+    endDate: toDate(Date.now() + PAY_PERIOD_WINDOW_DAYS * dayMs),
+  });
+
+  const next = periods
+    .filter(
+      (period): period is PayPeriod & { payrollUuid: string } =>
+        Boolean(period.payrollUuid) &&
+        !period.processed &&
+        (period.payrollType ?? 'regular') === 'regular' &&
+        (!payScheduleUuid || period.payScheduleUuid === payScheduleUuid)
+    )
+    .sort((a, b) =>
+      (a.checkDate ?? a.endDate ?? '').localeCompare(b.checkDate ?? b.endDate ?? '')
+    )[0];
+  if (!next) {
+    throw new ValidationError('No unprocessed regular payroll found for this company.');
+  }
+  return next;
+}
+
+/**
+ * Refuse an action once the payroll deadline has passed
+ */
+export function assertBeforeDeadline(payroll: Payroll, action: string, alternative?: string): void {
+  if (payroll.payrollDeadline && Date.parse(payroll.payrollDeadline) <= Date.now()) {
+    throw new ValidationError(
+      `The payroll deadline (${payroll.payrollDeadline}) has passed, so this payroll can no longer be ${action}.${alternative ? ` ${alternative}` : ''}`
+    );
+  }
+}
+
+/**
+ * Refuse an action until the payroll deadline has passed
+ */
+export function assertPastDeadline(payroll: Payroll, action: string, alternative?: string): void {
+  if (payroll.payrollDeadline && Date.parse(payroll.payrollDeadline) > Date.now()) {
+    throw new ValidationError(
+      `The payroll deadline (${payroll.payrollDeadline}) has not passed yet, so this payroll cannot be ${action}.${alternative ? ` ${alternative}` : ''}`
+    );
+  }
+}
+
+/**
+ * Check everything that commonly makes a payroll submission fail: Gusto's
+ * payroll blockers, the company bank account, the signatory, unsigned
+ * company forms and the onboarding of every employee on the payroll.
+ */
+export async function checkPayrollReadiness(
+  client: GustoClient,
+  companyId: string,
+  payScheduleUuid?: string
+): Promise<PayrollReadiness> {
+  const period = await findNextRegularPayPeriod(client, companyId, payScheduleUuid);
+  const [blockers, bankAccounts, signatories, forms] = await Promise.all([
+    client.listPayrollBlockers(companyId),
+    client.listCompanyBankAccounts(companyId),
+    client.listSignatories(companyId),
+    client.listCompanyForms(companyId),
+  ]);
+
+  const checklist: PayrollReadinessCheck[] = [];
+
+  if (blockers.length === 0) {
+    checklist.push({
+      check: 'payroll_blockers',
+      status: 'ok',
+      detail: 'Gusto reports no payroll blockers.',
+    });
+  }
+  for (const blocker of blockers) {
+    checklist.push({
+      check: `payroll_blocker:${blocker.key}`,
+      status: 'action_required',
+      detail: blocker.message,
+      action: 'Resolve this in Gusto; it prevents any payroll from being submitted.',
+    });
+  }
+
+  const verified = bankAccounts.filter((account) => account.verificationStatus === 'verified');
+  if (bankAccounts.length === 0) {
+    checklist.push({
+      check: 'bank_account',
+      status: 'action_required',
+      detail: 'The company has no bank account to fund payroll.',
+      action: 'Add one with gusto_create_company_bank_account.',
+    });
+  } else if (verified.length === 0) {
+    checklist.push({
+      check: 'bank_account',
+      status: 'action_required',
+      detail: `Bank account status: ${bankAccounts.map((account) => account.verificationStatus ?? 'unknown').join(', ')}.`,
+      action: 'Verify the bank account with the two micro-deposit amounts in Gusto.',
+    });
+  } else {
+    checklist.push({
+      check: 'bank_account',
+      status: 'ok',
+      detail: 'A verified bank account funds payroll.',
+    });
+  }
+
+  if (signatories.length === 0) {
+    checklist.push({
+      check: 'signatory',
+      status: 'action_required',
+      detail: 'The company has no signatory.',
+      action: 'Add one with gusto_create_signatory.',
+    });
+  } else {
+    checklist.push({ check: 'signatory', status: 'ok', detail: 'The company has a signatory.' });
+  }
+
+  const unsigned = forms.filter((form) => form.requiresSigning && !form.signed);
+  if (unsigned.length === 0) {
+    checklist.push({
+      check: 'company_forms',
+      status: 'ok',
+      detail: 'No company forms are waiting for a signature.',
+    });
+  }
+  for (const form of unsigned) {
+    checklist.push({
+      check: `company_form:${form.uuid}`,
+      status: 'action_required',
+      detail: `${form.title || form.name || 'Form'} requires a signature.`,
+      action: 'Have the signatory sign the form in Gusto.',
+    });
+  }
+
+  let employeeUuids = (period.eligibleEmployees ?? []).map((employee) => employee.uuid);
+  if (employeeUuids.length === 0) {
+    const payroll = await client.getPayroll(companyId, period.payrollUuid);
+    employeeUuids = (payroll.employeeCompensations ?? []).flatMap((ec) =>
+      ec.employeeUuid ? [ec.employeeUuid] : []
+    );
+  }
+
+  let incomplete = 0;
+  for (let i = 0; i < employeeUuids.length; i += ONBOARDING_BATCH_SIZE) {
+    const statuses = await Promise.all(
+      employeeUuids
+        .slice(i, i + ONBOARDING_BATCH_SIZE)
+        .map((uuid) => client.getEmployeeOnboardingStatus(uuid))
+    );
+    for (const status of statuses) {
+      if (status.onboardingStatus === 'onboarding_completed') continue;
+      incomplete++;
+      const steps = (status.onboardingSteps ?? [])
+        .filter((step) => step.required && !step.completed)
+        .map((step) => step.title);
+      checklist.push({
+        check: `employee_onboarding:${status.uuid}`,
+        status: 'action_required',
+        detail: `Employee ${status.uuid} has not finished onboarding${steps.length ? ` (missing: ${steps.join(', ')})` : ''}.`,
+        action:
+          'Complete the missing steps, or exclude the employee from this payroll with gusto_update_payroll.',
+      });
+    }
+  }
+  if (incomplete === 0) {
+    checklist.push({
+      check: 'employee_onboarding',
+      status: 'ok',
+      detail: `All ${employeeUuids.length} employees on the payroll have finished onboarding.`,
+    });
+  }
+
+  return {
+    ready: checklist.every((item) => item.status === 'ok'),
+    payrollUuid: period.payrollUuid,
+    payScheduleUuid: period.payScheduleUuid,
+    checkDate: period.checkDate,
+    checklist,
+  };
+}
@@ -0,0 +1,78 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { describe, expect, it } from 'vitest';
+import type { GustoClient } from '../client.js';
+import type { Env } from '../types/env.js';
+import { registerGustoTools, type SessionContext } from './index.js';
+import {
+  getToolAccess,
+  isToolAllowed,
+  TOOL_NAMES,
+  TOOL_NAMES_BY_GROUP,
+  type ToolGroup,
+  type ToolPolicy,
+} from './policy.js';
+
+const session: SessionContext = {
+  getActiveCompanyId: () => undefined,
+  setActiveCompanyId: () => {},
+  getPayrollVersions: () => ({}),
+  recordPayrollVersion: () => {},
+};
+
+/**
+ * Names of the tools registerGustoTools registers under a policy
+ */
+function registeredTools(policy?: ToolPolicy): string[] {
+  const tools: string[] = [];
+  const server = {
+    tool: (name: string) => {
+      tools.push(name);
+    },
+  };
+  registerGustoTools(
+    server as unknown as McpServer,
+    {} as GustoClient,
+    { CHARACTER_LIMIT: '50000' } as Env,
+    { session, policy }
+  );
+  return tools;
+}
+
+describe('getToolAccess', () => {
+  it('classifies tools by prefix', () => {
+    expect(getToolAccess('gusto_list_employees')).toBe('read');
+    expect(getToolAccess('gusto_get_payroll')).toBe('read');
+    expect(getToolAccess('gusto_submit_payroll')).toBe('write');
+  });
+
+  it('treats read-only tools without a read prefix as reads', () => {
+    expect(getToolAccess('gusto_check_payroll_readiness')).toBe('read');
+    expect(getToolAccess('gusto_poll_changes')).toBe('read');
+  });
+});
+
+describe('isToolAllowed', () => {
+  it('keeps read tools in read-only mode', () => {
+    const policy = { readOnly: true };
+    expect(isToolAllowed(policy, 'gusto_check_payroll_readiness', 'payroll')).toBe(true);
+    expect(isToolAllowed(policy, 'gusto_run_payroll', 'payroll')).toBe(false);
+  });
+
+  it('matches group-access selectors in allow lists', () => {
+    const policy = { allow: ['payroll-read'] };
+    expect(isToolAllowed(policy, 'gusto_check_payroll_readiness', 'payroll')).toBe(true);
+    expect(isToolAllowed(policy, 'gusto_list_employees', 'employee')).toBe(false);
+  });
+});
+
+describe('TOOL_NAMES_BY_GROUP', () => {
+  it('lists every registered tool', () => {
+    expect(registeredTools()).toEqual(TOOL_NAMES);
+  });
+
+  it('lists each tool under the group it is registered with', () => {
+    for (const [group, names] of Object.entries(TOOL_NAMES_BY_GROUP)) {
+      expect(registeredTools({ allow: [group as ToolGroup] })).toEqual(names);
+    }
+  });
+});
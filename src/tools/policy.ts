@@ -0,0 +1,312 @@
+/**
+ * Tool Access Policy
+ *
+ * Decides which tools are registered for a request. Tools are classified by
+ * group (listed in TOOL_NAMES_BY_GROUP) and access (read or write), giving
+ * categories such as `payroll-write` or `employee-read`.
+ *
+ * Request Headers:
+ * - X-Gusto-Mode: read-only - Register no mutating tools
+ * - X-Gusto-Tool-Allowlist: Comma-separated tool names, groups, accesses or categories
+ * - X-Gusto-Tool-Denylist: Comma-separated tool names, groups, accesses or categories
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+export type ToolAccess = 'read' | 'write';
+
+export type ToolGroup =
+  | 'connection'
+  | 'company'
+  | 'employee'
+  | 'contractor'
+  | 'payroll'
+  | 'benefit'
+  | 'time-off'
+  | 'report'
+  | 'webhook'
+  | 'session';
+
+export interface ToolPolicy {
+  /** Skip every tool that writes to Gusto */
+  readOnly?: boolean;
+  /** If set, only matching tools are registered */
+  allow?: string[];
+  /** Matching tools are never registered */
+  deny?: string[];
+}
+
+/**
+ * Every tool, listed under the group that owns it. registerGustoTools throws
+ * on a tool missing from this list, and the policy tests check that every
+ * listed tool is registered.
+ */
+export const TOOL_NAMES_BY_GROUP: Record<ToolGroup, readonly string[]> = {
+  connection: ['gusto_test_connection', 'gusto_get_token_info'],
+  company: [
+    'gusto_get_company',
+    'gusto_update_company',
+    'gusto_get_company_federal_tax_details',
+    'gusto_update_company_federal_tax_details',
+    'gusto_list_locations',
+    'gusto_create_location',
+    'gusto_get_location',
+    'gusto_update_location',
+    'gusto_list_departments',
+    'gusto_create_department',
+    'gusto_get_department',
+    'gusto_update_department',
+    'gusto_delete_department',
+    'gusto_list_admins',
+    'gusto_create_admin',
+    'gusto_list_signatories',
+    'gusto_create_signatory',
+    'gusto_list_company_bank_accounts',
+    'gusto_create_company_bank_account',
+  ],
+  employee: [
+    'gusto_list_employees',
+    'gusto_get_employee',
+    'gusto_create_employee',
+    'gusto_update_employee',
+    'gusto_delete_onboarding_employee',
+    'gusto_get_employee_onboarding_status',
+    'gusto_list_jobs',
+    'gusto_create_job',
+    'gusto_get_job',
+    'gusto_update_job',
+    'gusto_delete_job',
+    'gusto_list_compensations',
+    'gusto_create_compensation',
+    'gusto_get_compensation',
+    'gusto_update_compensation',
+    'gusto_list_home_addresses',
+    'gusto_create_home_address',
+    'gusto_update_home_address',
+    'gusto_list_work_addresses',
+    'gusto_create_work_address',
+    'gusto_get_federal_taxes',
+    'gusto_update_federal_taxes',
+    'gusto_get_state_taxes',
+    'gusto_update_state_taxes',
+    'gusto_list_employee_bank_accounts',
+    'gusto_create_employee_bank_account',
+    'gusto_get_employee_payment_method',
+    'gusto_update_employee_payment_method',
+    'gusto_list_terminations',
+    'gusto_create_termination',
+    'gusto_delete_termination',
+    'gusto_get_rehire',
+    'gusto_create_rehire',
+    'gusto_list_garnishments',
+    'gusto_create_garnishment',
+    'gusto_get_garnishment',
+    'gusto_update_garnishment',
+    'gusto_list_employee_forms',
+    'gusto_list_recurring_reimbursements',
+    'gusto_create_recurring_reimbursement',
+    'gusto_update_recurring_reimbursement',
+    'gusto_delete_recurring_reimbursement',
+    'gusto_get_i9_authorization',
+    'gusto_update_i9_authorization',
+    'gusto_list_i9_document_options',
+    'gusto_list_i9_documents',
+    'gusto_update_i9_documents',
+    'gusto_sign_i9_employer_section',
+  ],
+  contractor: [
+    'gusto_list_contractors',
+    'gusto_get_contractor',
+    'gusto_create_contractor',
+    'gusto_update_contractor',
+    'gusto_delete_contractor',
+    'gusto_get_contractor_onboarding_status',
+    'gusto_list_contractor_payments',
+    'gusto_list_contractor_payment_groups',
+    'gusto_create_contractor_payment',
+    'gusto_list_contractor_bank_accounts',
+    'gusto_create_contractor_bank_account',
+    'gusto_list_contractor_forms',
+  ],
+  payroll: [
+    'gusto_list_payrolls',
+    'gusto_get_payroll',
+    'gusto_update_payroll',
+    'gusto_calculate_payroll',
+    'gusto_submit_payroll',
+    'gusto_run_payroll',
+    'gusto_cancel_payroll',
+    'gusto_reverse_payroll',
+    'gusto_skip_payroll',
+    'gusto_get_pay_stub',
+    'gusto_list_employee_pay_stubs',
+    'gusto_get_payroll_receipt',
+    'gusto_create_off_cycle_payroll',
+    'gusto_list_payroll_blockers',
+    'gusto_check_payroll_readiness',
+    'gusto_list_pay_schedules',
+    'gusto_get_pay_schedule',
+    'gusto_create_pay_schedule',
+    'gusto_list_pay_periods',
+    'gusto_list_earning_types',
+    'gusto_create_earning_type',
+    'gusto_update_earning_type',
+    'gusto_deactivate_earning_type',
+    'gusto_list_company_forms',
+    'gusto_list_notifications',
+    'gusto_list_external_payrolls',
+    'gusto_get_external_payroll',
+    'gusto_create_external_payroll',
+    'gusto_update_external_payroll_items',
+    'gusto_delete_external_payroll',
+    'gusto_calculate_external_payroll_taxes',
+    'gusto_get_external_payroll_tax_liabilities',
+    'gusto_update_external_payroll_tax_liabilities',
+    'gusto_finish_external_payroll_tax_liabilities',
+  ],
+  benefit: [
+    'gusto_list_supported_benefits',
+    'gusto_list_company_benefits',
+    'gusto_create_company_benefit',
+    'gusto_get_company_benefit',
+    'gusto_update_company_benefit',
+    'gusto_delete_company_benefit',
+    'gusto_list_employee_benefits',
+    'gusto_create_employee_benefit',
+    'gusto_get_employee_benefit',
+    'gusto_update_employee_benefit',
+    'gusto_delete_employee_benefit',
+  ],
+  'time-off': [
+    'gusto_list_time_off_policies',
+    'gusto_get_time_off_policy',
+    'gusto_create_time_off_policy',
+    'gusto_update_time_off_policy',
+    'gusto_add_employees_to_time_off_policy',
+    'gusto_remove_employees_from_time_off_policy',
+    'gusto_list_time_off_requests',
+    'gusto_get_time_off_request',
+    'gusto_create_time_off_request',
+    'gusto_approve_time_off_request',
+    'gusto_deny_time_off_request',
+    'gusto_list_time_off_activities',
+    'gusto_get_holiday_pay_policy',
+    'gusto_create_holiday_pay_policy',
+    'gusto_update_holiday_pay_policy',
+  ],
+  report: ['gusto_create_report', 'gusto_get_report'],
+  webhook: [
+    'gusto_list_webhook_subscriptions',
+    'gusto_get_webhook_subscription',
+    'gusto_create_webhook_subscription',
+    'gusto_update_webhook_subscription',
+    'gusto_delete_webhook_subscription',
+    'gusto_request_webhook_verification_token',
+    'gusto_verify_webhook_subscription',
+    'gusto_list_events',
+    'gusto_poll_changes',
+  ],
+  session: ['gusto_set_active_company', 'gusto_get_session_context'],
+};
+
+/**
+ * Every tool name, in registration order
+ */
+export const TOOL_NAMES: readonly string[] = Object.values(TOOL_NAMES_BY_GROUP).flat();
+
+const TOOL_GROUPS = new Map(
+  Object.entries(TOOL_NAMES_BY_GROUP).flatMap(([group, names]) =>
+    names.map((name) => [name, group as ToolGroup] as const)
+  )
+);
+
+/**
+ * Look up the group that owns a tool
+ */
+export function getToolGroup(name: string): ToolGroup | undefined {
+  return TOOL_GROUPS.get(name);
+}
+
+/**
+ * Tool name prefixes that only read from Gusto
+ */
+const READ_PREFIXES = ['gusto_list_', 'gusto_get_', 'gusto_test_'];
+
+/**
+ * Tools that do not match a read prefix but never write to Gusto
+ */
+const READ_TOOLS = new Set([
+  'gusto_set_active_company',
+  'gusto_create_report',
+  'gusto_calculate_external_payroll_taxes',
+  'gusto_poll_changes',
+  'gusto_check_payroll_readiness',
+]);
+
+/**
+ * Classify a tool as read or write by its name
+ */
+export function getToolAccess(name: string): ToolAccess {
+  if (READ_TOOLS.has(name) || READ_PREFIXES.some((prefix) => name.startsWith(prefix))) {
+    return 'read';
+  }
+  return 'write';
+}
+
+/**
+ * Check whether a tool may be registered under the policy
+ */
+export function isToolAllowed(policy: ToolPolicy, name: string, group: ToolGroup): boolean {
+  const access = getToolAccess(name);
+  const selectors = [name, group, access, `${group}-${access}`];
+  const matches = (list: string[]) => list.some((entry) => selectors.includes(entry));
+
+  if (policy.readOnly && access === 'write') return false;
+  if (policy.deny && matches(policy.deny)) return false;
+  if (policy.allow && !matches(policy.allow)) return false;
+  return true;
+}
+
+/**
+ * Parse the tool policy from request headers
+ */
+export function parseToolPolicy(request: Request): ToolPolicy {
+  const headers = request.headers;
+  return {
+    readOnly: headers.get('X-Gusto-Mode')?.trim().toLowerCase() === 'read-only',
+    allow: parseList(headers.get('X-Gusto-Tool-Allowlist')),
+    deny: parseList(headers.get('X-Gusto-Tool-Denylist')),
+  };
+}
+
+/**
+ * Wrap a server so tools rejected by the policy are silently not registered.
+ * Registering a tool missing from TOOL_NAMES_BY_GROUP throws.
+ */
+export function restrictServer(server: McpServer, policy: ToolPolicy): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop === 'tool' || prop === 'registerTool') {
+        const register = Reflect.get(target, prop, receiver) as (...args: unknown[]) => unknown;
+        return (name: string, ...rest: unknown[]) => {
+          const group = getToolGroup(name);
+          if (!group) {
+            throw new Error(`Tool ${name} is missing from TOOL_NAMES_BY_GROUP`);
+          }
+          return isToolAllowed(policy, name, group)
+            ? register.call(target, name, ...rest)
+            : undefined;
+        };
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+}
+
+function parseList(value: string | null): string[] | undefined {
+  const entries = value
+    ?.split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return entries?.length ? entries : undefined;
+}
@@ -0,0 +1,94 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import type { Payroll } from '../types/entities.js';
+import { VersionConflictError } from '../utils/errors.js';
+import {
+  assertPayrollVersion,
+  defaultToActiveCompany,
+  resolvePayrollVersion,
+  type SessionContext,
+} from './session.js';
+
+type Handler = (args: Record<string, unknown>) => Promise<unknown>;
+
+function createSession(activeCompanyId?: string, versions: Record<string, string> = {}) {
+  const session: SessionContext = {
+    getActiveCompanyId: () => activeCompanyId,
+    setActiveCompanyId: (companyId) => {
+      activeCompanyId = companyId;
+    },
+    getPayrollVersions: () => ({ ...versions }),
+    recordPayrollVersion: (payrollId, version) => {
+      versions[payrollId] = version;
+    },
+  };
+  return session;
+}
+
+/**
+ * Register one tool through the wrapper and return its schema and handler
+ */
+function registerThroughSession(session: SessionContext, name = 'gusto_get_company') {
+  let registered: { shape: Record<string, z.ZodType>; handler: Handler } | undefined;
+  const server = {
+    tool: (
+      _name: string,
+      _description: string,
+      shape: Record<string, z.ZodType>,
+      handler: Handler
+    ) => {
+      registered = { shape, handler };
+    },
+  };
+  defaultToActiveCompany(server as unknown as McpServer, session).tool(
+    name,
+    'Test tool',
+    { companyId: z.string().describe('Company UUID') },
+    async (args) => ({ content: [{ type: 'text', text: JSON.stringify(args) }] })
+  );
+  return registered as { shape: Record<string, z.ZodType>; handler: Handler };
+}
+
+describe('defaultToActiveCompany', () => {
+  it('fills companyId from the active company', async () => {
+    const { shape, handler } = registerThroughSession(createSession('c1'));
+
+    expect(shape.companyId.safeParse(undefined).success).toBe(true);
+    expect(await handler({})).toMatchObject({ content: [{ text: '{"companyId":"c1"}' }] });
+    expect(await handler({ companyId: 'c2' })).toMatchObject({
+      content: [{ text: '{"companyId":"c2"}' }],
+    });
+  });
+
+  it('reports a missing companyId without an active company', async () => {
+    const { handler } = registerThroughSession(createSession());
+
+    expect(await handler({})).toMatchObject({ isError: true });
+  });
+
+  it('keeps companyId required for gusto_set_active_company', () => {
+    const { shape } = registerThroughSession(createSession('c1'), 'gusto_set_active_company');
+
+    expect(shape.companyId.safeParse(undefined).success).toBe(false);
+  });
+});
+
+describe('payroll versions', () => {
+  const payroll = { uuid: 'p1', version: 'v2' } as Payroll;
+
+  it('bases changes on the version seen in the session', () => {
+    expect(resolvePayrollVersion(createSession(undefined, { p1: 'v1' }), payroll)).toBe('v1');
+    expect(resolvePayrollVersion(createSession(), payroll)).toBe('v2');
+    expect(resolvePayrollVersion(createSession(undefined, { p1: 'v1' }), payroll, 'v3')).toBe('v3');
+  });
+
+  it('rejects a payroll that changed since it was seen', () => {
+    expect(() => assertPayrollVersion(createSession(undefined, { p1: 'v1' }), payroll)).toThrow(
+      VersionConflictError
+    );
+    expect(() =>
+      assertPayrollVersion(createSession(undefined, { p1: 'v2' }), payroll)
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Session Context Tools
+ *
+ * Tools that read and update per-session context. Only registered when the
+ * server runs in stateful mode (GustoMcpAgent), where the context survives
+ * between tool calls.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { GustoClient } from '../client.js';
+import type { Payroll } from '../types/entities.js';
+import { ValidationError, VersionConflictError } from '../utils/errors.js';
+import { formatError } from '../utils/formatters.js';
+
+/**
+ * Per-session context kept by the stateful agent
+ */
+export interface SessionContext {
+  /** Company UUID the session is currently working with */
+  getActiveCompanyId(): string | undefined;
+  setActiveCompanyId(companyId: string | undefined): void;
+  /** Latest payroll versions seen in this session, keyed by payroll UUID */
+  getPayrollVersions(): Record<string, string>;
+  recordPayrollVersion(payrollId: string, version: string): void;
+}
+
+/**
+ * Record the versions of payrolls returned by a tool call
+ */
+export function recordPayrollVersions(
+  session: SessionContext | undefined,
+  payrolls: Payroll | Payroll[]
+): void {
+  if (!session) return;
+  for (const payroll of Array.isArray(payrolls) ? payrolls : [payrolls]) {
+    const payrollId = payroll.uuid || payroll.payrollUuid;
+    if (payrollId && payroll.version) {
+      session.recordPayrollVersion(payrollId, payroll.version);
+    }
+  }
+}
+
+/**
+ * Version a payroll change is based on: the given version, else the latest
+ * version seen in this session, else the payroll's current version
+ */
+export function resolvePayrollVersion(
+  session: SessionContext | undefined,
+  payroll: Payroll,
+  version?: string
+): string | undefined {
+  const payrollId = payroll.uuid || payroll.payrollUuid;
+  return version ?? (payrollId && session?.getPayrollVersions()[payrollId]) ?? payroll.version;
+}
+
+/**
+ * Reject acting on a payroll that changed since the version it is based on
+ */
+export function assertPayrollVersion(
+  session: SessionContext | undefined,
+  payroll: Payroll,
+  version?: string
+): void {
+  const expected = resolvePayrollVersion(session, payroll, version);
+  if (expected && payroll.version && expected !== payroll.version) {
+    throw new VersionConflictError(
+      `Payroll changed since version ${expected} was read (now ${payroll.version}). Review it again before continuing.`
+    );
+  }
+}
+
+/**
+ * Tool that sets the active company, so it keeps a required companyId
+ */
+const SET_ACTIVE_COMPANY_TOOL = 'gusto_set_active_company';
+
+/**
+ * Wrap a server so tools taking a companyId default it to the session's
+ * active company
+ */
+export function defaultToActiveCompany(server: McpServer, session: SessionContext): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop === 'tool') {
+        const register = Reflect.get(target, prop, receiver) as (...args: unknown[]) => unknown;
+        return (name: string, ...rest: unknown[]) => {
+          const shape = rest[rest.length - 2] as Record<string, unknown> | undefined;
+          const handler = rest[rest.length - 1];
+          if (
+            name !== SET_ACTIVE_COMPANY_TOOL &&
+            shape?.companyId instanceof z.ZodString &&
+            typeof handler === 'function'
+          ) {
+            rest[rest.length - 2] = {
+              ...shape,
+              companyId: z
+                .string()
+                .optional()
+                .describe('Company UUID (default: the active company)'),
+            };
+            rest[rest.length - 1] = async (args: Record<string, unknown>, ...extra: unknown[]) => {
+              const companyId = args.companyId ?? session.getActiveCompanyId();
+              if (!companyId) {
+                return formatError(
+                  new ValidationError(
+                    'companyId is required. Pass it or call gusto_set_active_company first.'
+                  )
+                );
+              }
+              return handler({ ...args, companyId }, ...extra);
+            };
+          }
+          return register.call(target, name, ...rest);
+        };
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+}
+
+/**
+ * Register session context tools
+ */
+export function registerSessionTools(
+  server: McpServer,
+  client: GustoClient,
+  session: SessionContext
+): void {
+  server.tool(
+    'gusto_set_active_company',
+    'Set the company this session is working with. Verifies the company exists. Tools called without companyId then use it.',
+    {
+      companyId: z.string().describe('Company UUID'),
+    },
+    async ({ companyId }) => {
+      try {
+        const company = await client.getCompany(companyId);
+        session.setActiveCompanyId(company.uuid);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: true, activeCompany: { uuid: company.uuid, name: company.name } },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    'gusto_get_session_context',
+    'Get the active company and the payroll versions seen in this session.',
+    {},
+    async () => {
+      try {
+        const context = {
+          activeCompanyId: session.getActiveCompanyId() ?? null,
+          payrollVersions: session.getPayrollVersions(),
+        };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(context, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -348,9 +348,33 @@ export interface CompanyFederalTaxDetails {
   legalName?: string;
   taxPayerType?: string;
   filingForm?: string;
+  taxableAsScorp?: boolean;
+  hasEin?: boolean;
   version?: string;
 }
 
+export interface CompanyFederalTaxDetailsUpdateInput {
+  /** Version from the last read; the update is rejected if it is stale */
+  version: string;
+  ein?: string;
+  legalName?: string;
+  taxPayerType?:
+    | 'C-Corporation'
+    | 'S-Corporation'
+    | 'Sole proprietor'
+    | 'LLC'
+    | 'LLP'
+    | 'Limited partnership'
+    | 'Co-ownership'
+    | 'Association'
+    | 'Trusteeship'
+    | 'General partnership'
+    | 'Joint venture'
+    | 'Non-Profit';
+  filingForm?: '941' | '944';
+  taxableAsScorp?: boolean;
+}
+
 // =============================================================================
 // Contractor Types
 // =============================================================================
@@ -447,6 +471,10 @@ export interface Payroll {
   payPeriodEndDate?: string;
   checkDate?: string;
   payrollDeadline?: string;
+  /** Expected date the company's account is debited */
+  debitDate?: string;
+  /** Set once Gusto finishes calculating the payroll */
+  calculatedAt?: string;
   payScheduleUuid?: string;
   payScheduleType?: string;
   version?: string;
@@ -528,6 +556,141 @@ export interface PayrollUpdateInput {
   version?: string;
 }
 
+/**
+ * Something that prevents a company from running payroll
+ */
+export interface PayrollBlocker {
+  key: string;
+  message: string;
+}
+
+export interface PayrollReversal {
+  /** The payroll that was reversed */
+  reversedPayrollUuid: string;
+  /** The payroll created to reverse it */
+  reversalPayrollUuid?: string;
+  reason?: string;
+  category?: string;
+  approvedAt?: string;
+  reversedEmployeeUuids?: string[];
+}
+
+export interface PayrollReversalCreateInput {
+  reason: string;
+  /** Reverse only these employees (default: everyone on the payroll) */
+  reversedEmployeeUuids?: string[];
+}
+
+export interface PayrollSkipInput {
+  payrollType?: 'Regular' | 'Hired employee' | 'Terminated employee';
+  payScheduleUuid?: string;
+  startDate: string;
+  endDate: string;
+  employeeUuids?: string[];
+}
+
+/**
+ * A pay stub line (earning, tax or deduction)
+ */
+export interface PayStubLineItem {
+  name: string;
+  amount?: string;
+  hours?: string;
+  /** Taxes only: paid by the employer rather than withheld */
+  employer?: boolean;
+}
+
+/**
+ * An employee's pay stub for one payroll, itemized from the payroll
+ */
+export interface PayStub {
+  payrollUuid: string;
+  employeeUuid: string;
+  employeeName?: string;
+  checkDate?: string;
+  payPeriodStartDate?: string;
+  payPeriodEndDate?: string;
+  paymentMethod?: string;
+  grossPay?: string;
+  netPay?: string;
+  earnings: PayStubLineItem[];
+  taxes: PayStubLineItem[];
+  benefits: Array<{
+    name: string;
+    employeeDeduction?: string;
+    companyContribution?: string;
+  }>;
+  deductions: PayStubLineItem[];
+  /** Gusto API URL of the PDF pay stub (requires the access token) */
+  pdfUrl: string;
+}
+
+/**
+ * Summary of a pay stub in an employee's pay stub history
+ */
+export interface PayStubSummary {
+  payrollUuid: string;
+  checkDate?: string;
+  grossPay?: string;
+  netPay?: string;
+  checkAmount?: string;
+  paymentMethod?: string;
+}
+
+/**
+ * The company's receipt for a processed payroll
+ */
+export interface PayrollReceipt {
+  payrollUuid: string;
+  companyUuid?: string;
+  debitDate?: string;
+  nameOfSender?: string;
+  nameOfRecipient?: string;
+  recipientNotice?: string;
+  totals: {
+    companyDebit?: string;
+    netPayDebit?: string;
+    childSupportDebit?: string;
+    reimbursementDebit?: string;
+    taxDebit?: string;
+  };
+  taxes: Array<{ name: string; amount?: string }>;
+  employeeCompensations: Array<{
+    employeeUuid?: string;
+    employeeFirstName?: string;
+    employeeLastName?: string;
+    paymentMethod?: string;
+    netPay?: string;
+    totalTax?: string;
+    totalGarnishments?: string;
+    childSupportGarnishment?: string;
+    totalReimbursement?: string;
+  }>;
+}
+
+/**
+ * One item of a payroll readiness checklist
+ */
+export interface PayrollReadinessCheck {
+  /** What was checked, e.g. `bank_account` or `employee_onboarding:<uuid>` */
+  check: string;
+  status: 'ok' | 'action_required';
+  detail: string;
+  /** What to do when action is required */
+  action?: string;
+}
+
+/**
+ * Whether the next regular payroll can be run
+ */
+export interface PayrollReadiness {
+  ready: boolean;
+  payrollUuid?: string;
+  payScheduleUuid?: string;
+  checkDate?: string;
+  checklist: PayrollReadinessCheck[];
+}
+
 export interface OffCyclePayrollCreateInput {
   offCycleReason:
     | 'Bonus'
@@ -580,6 +743,8 @@ export interface PayPeriod {
   checkDate?: string;
   payrollUuid?: string;
   processed?: boolean;
+  /** `regular` or `transition` */
+  payrollType?: string;
   eligibleEmployees?: Array<{ uuid: string }>;
 }
 
@@ -720,12 +885,34 @@ export interface TimeOffRequest {
   days?: number;
   hours?: string;
   initiatorId?: string;
+  employee?: {
+    uuid?: string;
+    name?: string;
+  };
   approver?: {
     uuid?: string;
     name?: string;
   };
 }
 
+export interface TimeOffRequestCreateInput {
+  employeeUuid: string;
+  timeOffPolicyUuid?: string;
+  requestType?: 'vacation' | 'sick';
+  startDate: string;
+  endDate: string;
+  /** Hours requested per day (defaults to a full day) */
+  hoursPerDay?: string;
+  employeeNote?: string;
+}
+
+export interface TimeOffRequestFilters {
+  startDate?: string;
+  endDate?: string;
+  status?: 'pending' | 'approved' | 'denied';
+  employeeUuid?: string;
+}
+
 export interface TimeOffActivity {
   uuid: string;
   policyName?: string;
@@ -865,12 +1052,33 @@ export interface WebhookSubscriptionCreateInput {
 
 export interface Report {
   requestUuid: string;
+  companyUuid?: string;
+  customName?: string;
   status?: 'pending' | 'completed' | 'failed';
   columns?: string[];
   rows?: Array<Record<string, unknown>>;
   downloadUrl?: string;
 }
 
+export interface ReportCreateInput {
+  columns: string[];
+  groupings?: string[];
+  startDate?: string;
+  endDate?: string;
+  customName?: string;
+  withTotals?: boolean;
+  employmentType?: 'exempt' | 'salaried_nonexempt' | 'nonexempt' | 'commission_only_exempt' | 'commission_only_nonexempt';
+  employmentStatus?: 'active' | 'active_full_time' | 'active_part_time' | 'active_part_time_eligible' | 'active_variable' | 'active_seasonal' | 'dismissed';
+  employeeUuids?: string[];
+  departmentUuids?: string[];
+  workAddressUuids?: string[];
+}
+
+/**
+ * Output format for report rows
+ */
+export type ReportFormat = ResponseFormat | 'csv';
+
 // =============================================================================
 // Holiday Pay Policy Types
 // =============================================================================
@@ -902,19 +1110,88 @@ export interface ExternalPayroll {
     employeeUuid?: string;
     earnings?: Array<{
       earningType?: string;
+      earningId?: number;
       amount?: string;
+      hours?: string;
     }>;
     taxes?: Array<{
+      taxId?: number;
       name?: string;
       amount?: string;
       employer?: boolean;
     }>;
     benefits?: Array<{
+      benefitId?: number;
       benefitType?: string;
       employeeDeduction?: string;
       companyContribution?: string;
     }>;
   }>;
+  /** Earning types, taxes and benefits that may be entered for this payroll */
+  applicableEarnings?: Array<{
+    earningType?: string;
+    earningId?: number;
+    name?: string;
+  }>;
+  applicableTaxes?: Array<{
+    id?: number;
+    name?: string;
+    employerTax?: boolean;
+  }>;
+  applicableBenefits?: Array<{
+    id?: number;
+    description?: string;
+  }>;
+}
+
+export interface ExternalPayrollCreateInput {
+  checkDate: string;
+  paymentPeriodStartDate: string;
+  paymentPeriodEndDate: string;
+}
+
+export interface ExternalPayrollItemInput {
+  employeeUuid: string;
+  earnings?: Array<{
+    earningType: string;
+    earningId: number;
+    amount: string;
+    hours?: string;
+  }>;
+  taxes?: Array<{
+    taxId: number;
+    amount: string;
+  }>;
+  benefits?: Array<{
+    benefitId: number;
+    employeeDeductionAmount?: string;
+    companyContributionAmount?: string;
+  }>;
+}
+
+export interface ExternalPayrollTaxSuggestions {
+  employeeUuid?: string;
+  taxSuggestions?: Array<{
+    taxId?: number;
+    amount?: string;
+  }>;
+}
+
+export interface ExternalPayrollTaxLiability {
+  taxId?: number;
+  taxName?: string;
+  lastUnpaidExternalPayrollUuid?: string;
+  possibleLiabilities?: Array<{
+    liabilityAmount?: string;
+    payrollCheckDate?: string;
+    externalPayrollUuid?: string;
+  }>;
+}
+
+export interface TaxLiabilitySelection {
+  taxId: number;
+  lastUnpaidExternalPayrollUuid: string;
+  unpaidLiabilityAmount: string;
 }
 
 // =============================================================================
@@ -926,6 +1203,9 @@ export interface GustoEvent {
   resourceUuid?: string;
   resourceType?: string;
   eventType?: string;
+  /** Record the event is about, when it is not the resource itself (e.g. an Employee of a Company) */
+  entityType?: string;
+  entityUuid?: string;
   timestamp?: string;
   companyUuid?: string;
 }
@@ -937,6 +1217,8 @@ export interface GustoEvent {
 export interface I9Authorization {
   uuid?: string;
   employeeUuid?: string;
+  version?: string;
+  documentType?: string;
   documentTitle?: string;
   citizenshipStatus?: string;
   expirationDate?: string;
@@ -944,6 +1226,53 @@ export interface I9Authorization {
   i94Number?: string;
   foreignPassportNumber?: string;
   countryOfIssuance?: string;
+  employeeSigned?: boolean;
+  employerSigned?: boolean;
+}
+
+export interface I9AuthorizationUpdateInput {
+  citizenshipStatus: 'citizen' | 'noncitizen' | 'permanent_resident' | 'alien';
+  documentType?: string;
+  documentTitle?: string;
+  expirationDate?: string;
+  alienNumber?: string;
+  i94Number?: string;
+  foreignPassportNumber?: string;
+  countryOfIssuance?: string;
+  version?: string;
+}
+
+export interface I9DocumentOption {
+  section?: string;
+  documentType?: string;
+  title?: string;
+  description?: string;
+}
+
+export interface I9Document {
+  uuid?: string;
+  documentType?: string;
+  documentTitle?: string;
+  documentNumber?: string;
+  issuingAuthority?: string;
+  expirationDate?: string;
+}
+
+export interface I9DocumentInput {
+  documentType: string;
+  documentTitle: string;
+  documentNumber: string;
+  issuingAuthority: string;
+  expirationDate?: string;
+}
+
+export interface I9EmployerSignInput {
+  signatureText: string;
+  signerTitle: string;
+  signerIpAddress: string;
+  agree: boolean;
+  additionalInfo?: string;
+  altProcedure?: boolean;
 }
 
 // =============================================================================
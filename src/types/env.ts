@@ -9,8 +9,11 @@
  * This allows a single server instance to serve multiple customers.
  *
  * Request Headers:
- * - X-Gusto-Access-Token: OAuth 2.0 access token (required)
+ * - X-Gusto-Access-Token: OAuth 2.0 access token (required unless a server key is used)
+ * - Authorization: Bearer <server key> issued by the /oauth flow (alternative to the above)
  * - X-Gusto-API-Version: (Optional) API version override
+ * - X-Gusto-Refresh-Token, X-Gusto-Client-Id, X-Gusto-Client-Secret: (Optional)
+ *   enable transparent access-token refresh
  */
 
 // =============================================================================
@@ -21,8 +24,20 @@ export interface TenantCredentials {
   /** OAuth 2.0 Access Token for Gusto authentication (from X-Gusto-Access-Token header) */
   accessToken?: string;
 
-  /** API version override (from X-Gusto-API-Version header) */
+  /** API version override (from X-Gusto-API-Version header, defaults to DEFAULT_API_VERSION) */
   apiVersion?: string;
+
+  /** Opaque server-issued key whose tokens are stored in OAUTH_KV (from Authorization header) */
+  serverKey?: string;
+
+  /** OAuth 2.0 refresh token (from X-Gusto-Refresh-Token header or OAUTH_KV) */
+  refreshToken?: string;
+
+  /** OAuth application client ID (from X-Gusto-Client-Id header, defaults to GUSTO_CLIENT_ID) */
+  clientId?: string;
+
+  /** OAuth application client secret (from X-Gusto-Client-Secret header, defaults to GUSTO_CLIENT_SECRET) */
+  clientSecret?: string;
 }
 
 /**
@@ -34,6 +49,9 @@ export function parseTenantCredentials(request: Request): TenantCredentials {
   return {
     accessToken: headers.get('X-Gusto-Access-Token') || undefined,
     apiVersion: headers.get('X-Gusto-API-Version') || undefined,
+    refreshToken: headers.get('X-Gusto-Refresh-Token') || undefined,
+    clientId: headers.get('X-Gusto-Client-Id') || undefined,
+    clientSecret: headers.get('X-Gusto-Client-Secret') || undefined,
   };
 }
 
@@ -42,7 +60,9 @@ export function parseTenantCredentials(request: Request): TenantCredentials {
  */
 export function validateCredentials(credentials: TenantCredentials): void {
   if (!credentials.accessToken) {
-    throw new Error('Missing credentials. Provide X-Gusto-Access-Token header.');
+    throw new Error(
+      'Missing credentials. Provide X-Gusto-Access-Token header or Authorization: Bearer <server key>.'
+    );
   }
 }
 
@@ -64,16 +84,44 @@ export interface Env {
   /** Maximum page size allowed */
   MAX_PAGE_SIZE: string;
 
+  /** Set to "false" to return I-9 document numbers unmasked */
+  REDACT_DOCUMENT_NUMBERS?: string;
+
+  // ===========================================================================
+  // Secrets (OAuth app credentials, via `wrangler secret put`)
+  // ===========================================================================
+
+  /** Gusto OAuth application client ID */
+  GUSTO_CLIENT_ID?: string;
+
+  /** Gusto OAuth application client secret */
+  GUSTO_CLIENT_SECRET?: string;
+
+  /** Redirect URI registered with Gusto (defaults to <origin>/oauth/callback) */
+  GUSTO_OAUTH_REDIRECT_URI?: string;
+
+  /** Secret for signing payroll confirmation tokens (defaults to a per-tenant secret) */
+  CONFIRMATION_SECRET?: string;
+
+  /** Webhook verification token obtained outside /webhooks/gusto (optional) */
+  GUSTO_WEBHOOK_VERIFICATION_TOKEN?: string;
+
   // ===========================================================================
   // Bindings
   // ===========================================================================
 
-  /** KV namespace for OAuth token storage */
+  /** KV namespace for OAuth tokens, event cursors and redeemed confirmation tokens */
   OAUTH_KV?: KVNamespace;
 
+  /** KV namespace for webhook verification tokens and received events */
+  WEBHOOK_KV?: KVNamespace;
+
   /** Durable Object namespace for MCP sessions */
   MCP_SESSIONS?: DurableObjectNamespace;
 
+  /** Durable Object namespace recording redeemed confirmation tokens */
+  CONFIRMATION_NONCES?: DurableObjectNamespace;
+
   /** Cloudflare AI binding (optional) */
   AI?: Ai;
 }
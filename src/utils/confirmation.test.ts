@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { markConfirmationNonceUsed } from '../auth/store.js';
+import { createMemoryKv } from '../test/memory-kv.js';
+import {
+  createConfirmationToken,
+  createMemoryNonceStore,
+  type UsedNonceStore,
+  verifyConfirmationToken,
+} from './confirmation.js';
+import { ValidationError } from './errors.js';
+
+const SECRET = 'secret';
+const SCOPE = { action: 'submit_payroll', subject: 'company/payroll', version: 'v1' };
+
+describe('confirmation tokens', () => {
+  it('accepts a token for the previewed scope once', async () => {
+    const usedNonces = createMemoryNonceStore();
+    const { token } = await createConfirmationToken(SECRET, SCOPE);
+
+    await expect(verifyConfirmationToken(SECRET, token, SCOPE, usedNonces)).resolves.toBe(
+      undefined
+    );
+    await expect(verifyConfirmationToken(SECRET, token, SCOPE, usedNonces)).rejects.toThrow(
+      'already used'
+    );
+  });
+
+  it('rejects reuse across instances sharing OAUTH_KV', async () => {
+    const kv = createMemoryKv();
+    const shared: UsedNonceStore = {
+      markUsed: (nonce, expiresAt) => markConfirmationNonceUsed(kv, nonce, expiresAt),
+    };
+    const { token } = await createConfirmationToken(SECRET, SCOPE);
+
+    await verifyConfirmationToken(SECRET, token, SCOPE, shared);
+    await expect(verifyConfirmationToken(SECRET, token, SCOPE, shared)).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+
+  it('rejects a token for a changed resource version', async () => {
+    const { token } = await createConfirmationToken(SECRET, SCOPE);
+
+    await expect(
+      verifyConfirmationToken(SECRET, token, { ...SCOPE, version: 'v2' }, createMemoryNonceStore())
+    ).rejects.toThrow('Resource changed');
+  });
+
+  it('rejects an expired or forged token', async () => {
+    const expired = await createConfirmationToken(SECRET, SCOPE, -1);
+    const forged = await createConfirmationToken('other', SCOPE);
+
+    await expect(
+      verifyConfirmationToken(SECRET, expired.token, SCOPE, createMemoryNonceStore())
+    ).rejects.toThrow('expired');
+    await expect(
+      verifyConfirmationToken(SECRET, forged.token, SCOPE, createMemoryNonceStore())
+    ).rejects.toThrow('Invalid confirmation token');
+  });
+});
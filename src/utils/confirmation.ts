@@ -0,0 +1,189 @@
+/**
+ * Confirmation Tokens
+ *
+ * Money-moving tools run in two phases: the first call returns a preview and
+ * a short-lived confirmation token, the second call performs the action only
+ * when it presents that token. Tokens are HMAC-signed, so they can be
+ * verified by any stateless server instance that shares the secret. Each
+ * token carries a nonce that is recorded when the token is redeemed. Whether
+ * a token confirms at most one action depends on the UsedNonceStore: only an
+ * atomic store (the CONFIRMATION_NONCES Durable Object) guarantees it.
+ */
+
+import { base64UrlEncode } from '../auth/store.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * How long a confirmation token stays valid
+ */
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * What a confirmation token authorizes
+ */
+export interface ConfirmationScope {
+  /** Tool-level action, e.g. `submit_payroll` */
+  action: string;
+  /** Resource the action applies to, e.g. `<companyId>/<payrollId>` */
+  subject: string;
+  /** Resource version at preview time (optimistic locking) */
+  version?: string;
+  /** Fingerprint of the request payload at preview time */
+  fingerprint?: string;
+}
+
+interface ConfirmationClaims extends ConfirmationScope {
+  expiresAt: number;
+  /** Unique token ID, recorded once the token is redeemed */
+  nonce: string;
+}
+
+/**
+ * Records redeemed confirmation token nonces until the tokens expire
+ */
+export interface UsedNonceStore {
+  /**
+   * Record a nonce as used. Resolves false when it was already used.
+   *
+   * @param expiresAt - Expiry of the token (epoch ms); the nonce may be forgotten after it
+   */
+  markUsed(nonce: string, expiresAt: number): Promise<boolean>;
+}
+
+/**
+ * UsedNonceStore kept in memory, for servers without shared storage
+ */
+export function createMemoryNonceStore(): UsedNonceStore {
+  const used = new Map<string, number>();
+  return {
+    async markUsed(nonce, expiresAt) {
+      const now = Date.now();
+      for (const [key, expiry] of used) {
+        if (expiry < now) used.delete(key);
+      }
+      if (used.has(nonce)) {
+        return false;
+      }
+      used.set(nonce, expiresAt);
+      return true;
+    },
+  };
+}
+
+/**
+ * Issue a confirmation token for the given scope
+ */
+export async function createConfirmationToken(
+  secret: string,
+  scope: ConfirmationScope,
+  ttlMs = CONFIRMATION_TTL_MS
+): Promise<{ token: string; expiresAt: string }> {
+  const claims: ConfirmationClaims = {
+    ...scope,
+    expiresAt: Date.now() + ttlMs,
+    nonce: crypto.randomUUID(),
+  };
+  const payload = base64UrlEncode(new TextEncoder().encode(JSON.stringify(claims)));
+  const signature = await sign(secret, payload);
+  return { token: `${payload}.${signature}`, expiresAt: new Date(claims.expiresAt).toISOString() };
+}
+
+/**
+ * Verify a confirmation token against the current scope and mark it used.
+ * Throws ValidationError when the token is invalid, expired, stale or was
+ * already used.
+ */
+export async function verifyConfirmationToken(
+  secret: string,
+  token: string,
+  scope: ConfirmationScope,
+  usedNonces: UsedNonceStore
+): Promise<void> {
+  const [payload, signature] = token.split('.');
+  let claims: ConfirmationClaims;
+  try {
+    if (!payload || !signature || !(await verifySignature(secret, payload, signature))) {
+      throw new Error('Bad signature');
+    }
+    claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)));
+  } catch {
+    throw new ValidationError('Invalid confirmation token. Request a new preview.');
+  }
+
+  if (claims.expiresAt < Date.now()) {
+    throw new ValidationError('Confirmation token expired. Request a new preview.');
+  }
+  if (claims.action !== scope.action || claims.subject !== scope.subject) {
+    throw new ValidationError('Confirmation token was issued for a different action.');
+  }
+  if (claims.version !== scope.version) {
+    throw new ValidationError(
+      `Resource changed since the preview (version ${claims.version ?? 'none'} is now ${scope.version ?? 'none'}). Request a new preview.`
+    );
+  }
+  if (claims.fingerprint !== scope.fingerprint) {
+    throw new ValidationError('Request differs from the previewed request. Request a new preview.');
+  }
+  if (!claims.nonce || !(await usedNonces.markUsed(claims.nonce, claims.expiresAt))) {
+    throw new ValidationError('Confirmation token was already used. Request a new preview.');
+  }
+}
+
+/**
+ * Fingerprint a request payload (order-independent for object keys)
+ */
+export async function fingerprint(value: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(stableStringify(value))
+  );
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function importHmacKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
+
+async function sign(secret: string, payload: string): Promise<string> {
+  const key = await importHmacKey(secret, 'sign');
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+async function verifySignature(
+  secret: string,
+  payload: string,
+  signature: string
+): Promise<boolean> {
+  const key = await importHmacKey(secret, 'verify');
+  return crypto.subtle.verify(
+    'HMAC',
+    key,
+    base64UrlDecode(signature),
+    new TextEncoder().encode(payload)
+  );
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
@@ -0,0 +1,75 @@
+/**
+ * CSV Utilities
+ *
+ * Minimal RFC 4180 parsing and serialization for Gusto report files.
+ */
+
+/**
+ * Parse CSV text into a header row and records keyed by header
+ */
+export function parseCsv(text: string): { columns: string[]; rows: Array<Record<string, string>> } {
+  const [columns = [], ...records] = parseCsvRecords(text);
+  const rows = records
+    .filter((record) => record.some((value) => value !== ''))
+    .map((record) => Object.fromEntries(columns.map((column, i) => [column, record[i] ?? ''])));
+  return { columns, rows };
+}
+
+/**
+ * Serialize rows to CSV, using the given column order
+ */
+export function toCsv(columns: string[], rows: Array<Record<string, unknown>>): string {
+  const lines = [columns.map(escapeCsvValue).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCsvValue(row[column])).join(','));
+  }
+  return lines.join('\n');
+}
+
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  // Strip a UTF-8 byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(value);
+      records.push(record);
+      record = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value !== '' || record.length > 0) {
+    record.push(value);
+    records.push(record);
+  }
+  return records;
+}
+
+function escapeCsvValue(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -25,9 +25,10 @@ export class CrmApiError extends Error {
  * Rate limit exceeded error
  */
 export class RateLimitError extends CrmApiError {
-  public retryAfterSeconds: number;
+  /** Delay requested by Gusto's Retry-After header, if it sent one */
+  public retryAfterSeconds?: number;
 
-  constructor(message: string, retryAfterSeconds: number) {
+  constructor(message: string, retryAfterSeconds?: number) {
     super(message, 429, 'RATE_LIMIT_EXCEEDED', true);
     this.name = 'RateLimitError';
     this.retryAfterSeconds = retryAfterSeconds;
@@ -67,6 +68,16 @@ export class ValidationError extends CrmApiError {
   }
 }
 
+/**
+ * Version conflict error (optimistic locking: the resource changed since it was read)
+ */
+export class VersionConflictError extends CrmApiError {
+  constructor(message: string) {
+    super(message, 409, 'VERSION_CONFLICT', false);
+    this.name = 'VersionConflictError';
+  }
+}
+
 /**
  * Check if an error is retryable
  */
@@ -76,10 +87,9 @@ export function isRetryableError(error: unknown): boolean {
   }
   if (error instanceof Error) {
     // Network errors are typically retryable
+    const message = error.message.toLowerCase();
     return (
-      error.message.includes('network') ||
-      error.message.includes('timeout') ||
-      error.message.includes('ECONNRESET')
+      message.includes('network') || message.includes('timeout') || message.includes('econnreset')
     );
   }
   return false;
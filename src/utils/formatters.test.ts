@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { type ToolResponse, truncateResponse } from './formatters.js';
+
+function jsonResponse(data: unknown): ToolResponse {
+  return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] };
+}
+
+function parseText(response: ToolResponse): Record<string, unknown> {
+  const [item] = response.content;
+  return JSON.parse(item.type === 'text' ? item.text : '');
+}
+
+function textLength(response: ToolResponse): number {
+  const [item] = response.content;
+  return item.type === 'text' ? item.text.length : 0;
+}
+
+describe('truncateResponse', () => {
+  it('leaves responses within the limit unchanged', () => {
+    const response = jsonResponse({ uuid: 'c1' });
+
+    expect(truncateResponse(response, 1000)).toBe(response);
+  });
+
+  it('drops trailing items from a paginated list and reports how many are shown', () => {
+    const items = Array.from({ length: 100 }, (_, i) => ({
+      uuid: `employee-${i}`,
+      name: 'x'.repeat(50),
+    }));
+    const response = jsonResponse({ items, total: 100, page: 1, hasMore: true, nextPage: 2 });
+
+    const truncated = truncateResponse(response, 2000);
+    const data = parseText(truncated) as {
+      items: { uuid: string }[];
+      count: number;
+      total: number;
+      truncated: { field: string; shown: number; total: number; hint: string };
+    };
+
+    expect(textLength(truncated)).toBeLessThanOrEqual(2000);
+    expect(data.items.length).toBeGreaterThan(0);
+    expect(data.items.length).toBeLessThan(100);
+    expect(data.items[0].uuid).toBe('employee-0');
+    expect(data.count).toBe(data.items.length);
+    expect(data.total).toBe(100);
+    expect(data.truncated).toMatchObject({ field: 'items', shown: data.items.length, total: 100 });
+    expect(data.truncated.hint).toContain(`per=${data.items.length}`);
+  });
+
+  it("trims a payroll's nested employee compensations", () => {
+    const employeeCompensations = Array.from({ length: 60 }, (_, i) => ({
+      employeeUuid: `employee-${i}`,
+      hourlyCompensations: [{ name: 'Regular Hours', hours: '40.000' }],
+    }));
+    const response = jsonResponse({
+      success: true,
+      payroll: { uuid: 'p1', version: 'v1', employeeCompensations },
+    });
+
+    const truncated = truncateResponse(response, 3000);
+    const data = parseText(truncated) as {
+      payroll: { uuid: string; employeeCompensations: unknown[] };
+      truncated: { field: string; shown: number; total: number };
+    };
+
+    expect(textLength(truncated)).toBeLessThanOrEqual(3000);
+    expect(data.payroll.uuid).toBe('p1');
+    expect(data.truncated).toMatchObject({
+      field: 'payroll.employeeCompensations',
+      shown: data.payroll.employeeCompensations.length,
+      total: 60,
+    });
+    expect(data).not.toHaveProperty('count');
+  });
+
+  it('cuts plain text at a line break and appends a notice', () => {
+    const text = Array.from({ length: 200 }, (_, i) => `| employee-${i} | Active |`).join('\n');
+
+    const truncated = truncateResponse({ content: [{ type: 'text', text }] }, 1000);
+    const [item] = truncated.content;
+    const output = item.type === 'text' ? item.text : '';
+
+    expect(output.length).toBeLessThanOrEqual(1000);
+    expect(output).toMatch(/\| Active \|\n\n_Response truncated at 1000 characters/);
+  });
+
+  it('falls back to plain text when even an empty array does not fit', () => {
+    const response = jsonResponse({ description: 'x'.repeat(3000), items: [1, 2, 3] });
+
+    const truncated = truncateResponse(response, 500);
+    const [item] = truncated.content;
+
+    expect(textLength(truncated)).toBeLessThanOrEqual(500);
+    expect(item.type === 'text' && item.text).toContain('_Response truncated at 500 characters');
+  });
+});
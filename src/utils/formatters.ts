@@ -10,9 +10,16 @@ import type {
   Employee,
   PaginatedResponse,
   Payroll,
+  PayrollReadiness,
+  PayrollReceipt,
   PaySchedule,
+  PayStub,
+  Report,
+  ReportFormat,
   ResponseFormat,
+  TimeOffRequest,
 } from '../types/entities.js';
+import { toCsv } from './csv.js';
 import { CrmApiError, formatErrorForLogging } from './errors.js';
 
 /**
@@ -43,6 +50,92 @@ export function formatResponse(
   };
 }
 
+/**
+ * Format a report. Completed reports are rendered as JSON, a Markdown
+ * table or CSV; unfinished reports return their status.
+ */
+export function formatReport(report: Report, format: ReportFormat): ToolResponse {
+  if (report.status !== 'completed' || !report.rows) {
+    const message =
+      report.status === 'failed'
+        ? 'Report generation failed. Create a new report request.'
+        : 'Report is still being generated. Call gusto_get_report again shortly.';
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ requestUuid: report.requestUuid, status: report.status, message }, null, 2),
+        },
+      ],
+    };
+  }
+
+  const columns = report.columns ?? [];
+  if (format === 'csv') {
+    return { content: [{ type: 'text', text: toCsv(columns, report.rows) }] };
+  }
+  if (format === 'markdown') {
+    return { content: [{ type: 'text', text: formatReportAsMarkdown(report, columns) }] };
+  }
+  return {
+    content: [{ type: 'text', text: JSON.stringify(report, null, 2) }],
+  };
+}
+
+/**
+ * Format a preview that must be confirmed before the action runs
+ */
+export function formatConfirmationRequest(
+  toolName: string,
+  preview: unknown,
+  confirmation: { token: string; expiresAt: string }
+): ToolResponse {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            requiresConfirmation: true,
+            preview,
+            confirmationToken: confirmation.token,
+            expiresAt: confirmation.expiresAt,
+            instructions: `Review this preview with the user. To proceed, call ${toolName} again with the same arguments plus confirmationToken.`,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+/**
+ * Truncate a response that exceeds the character limit.
+ *
+ * JSON responses keep their shape: the largest array (a page of `items`,
+ * a payroll's `employeeCompensations`, ...) is trimmed until the response
+ * fits, and a `truncated` note tells the agent how to fetch the rest. Other
+ * responses are cut at a line boundary.
+ */
+export function truncateResponse(response: ToolResponse, characterLimit: number): ToolResponse {
+  const textItems = response.content.filter((item) => item.type === 'text');
+  const length = textItems.reduce((sum, item) => sum + item.text.length, 0);
+  if (length <= characterLimit || textItems.length === 0) {
+    return response;
+  }
+
+  const budget = Math.floor(characterLimit / textItems.length);
+  return {
+    ...response,
+    content: response.content.map((item) =>
+      item.type === 'text' && item.text.length > budget
+        ? { ...item, text: truncateText(item.text, budget) }
+        : item
+    ),
+  };
+}
+
 /**
  * Format an error response
  */
@@ -238,6 +331,9 @@ function formatArrayAsMarkdown(data: unknown[], entityType: string): string {
   if (entityType === 'companies') {
     return formatCompaniesAsMarkdown(data as Company[]);
   }
+  if (entityType === 'timeOffRequests') {
+    return formatTimeOffRequestsAsMarkdown(data as TimeOffRequest[]);
+  }
   return formatGenericTable(data);
 }
 
@@ -276,10 +372,187 @@ function formatCompaniesAsMarkdown(companies: Company[]): string {
   return lines.join('\n');
 }
 
+/**
+ * Format a completed report as a Markdown table (all columns)
+ */
+function formatReportAsMarkdown(report: Report, columns: string[]): string {
+  const rows = report.rows ?? [];
+  const lines: string[] = [];
+  lines.push(`## ${report.customName || 'Report'}`);
+  lines.push('');
+  lines.push(`**Request:** \`${report.requestUuid}\` | **Rows:** ${rows.length}`);
+  lines.push('');
+
+  if (rows.length === 0) {
+    lines.push('_No rows._');
+    return lines.join('\n');
+  }
+
+  lines.push(`| ${columns.join(' | ')} |`);
+  lines.push(`|${columns.map(() => '---').join('|')}|`);
+  for (const row of rows) {
+    lines.push(`| ${columns.map((c) => String(row[c] ?? '-').replace(/\|/g, '\\|')).join(' | ')} |`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format time off requests as Markdown
+ */
+function formatTimeOffRequestsAsMarkdown(requests: TimeOffRequest[]): string {
+  if (requests.length === 0) return '_No time off requests found._';
+
+  const lines: string[] = [];
+  lines.push('| UUID | Employee | Type | Dates | Hours | Status |');
+  lines.push('|---|---|---|---|---|---|');
+
+  for (const r of requests) {
+    const employee = r.employee?.name || r.employeeUuid || '-';
+    const dates = r.startDate === r.endDate ? (r.startDate || '-') : `${r.startDate} - ${r.endDate}`;
+    lines.push(
+      `| ${r.uuid} | ${employee} | ${r.requestType || '-'} | ${dates} | ${r.hours || '-'} | ${r.status || '-'} |`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a payroll readiness checklist as Markdown
+ */
+function formatPayrollReadinessAsMarkdown(readiness: PayrollReadiness): string {
+  const lines: string[] = [];
+  lines.push(`## Payroll Readiness: ${readiness.ready ? 'Ready' : 'Action required'}`);
+  lines.push('');
+  lines.push(`**Payroll:** \`${readiness.payrollUuid || '-'}\` | **Check Date:** ${readiness.checkDate || '-'}`);
+  lines.push('');
+
+  for (const item of readiness.checklist) {
+    const done = item.status === 'ok' ? 'x' : ' ';
+    lines.push(`- [${done}] ${item.detail}${item.action ? ` ${item.action}` : ''}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a pay stub as Markdown
+ */
+function formatPayStubAsMarkdown(stub: PayStub): string {
+  const lines: string[] = [];
+  const payPeriod =
+    stub.payPeriodStartDate && stub.payPeriodEndDate ? `${stub.payPeriodStartDate} - ${stub.payPeriodEndDate}` : '-';
+  lines.push(`## Pay Stub: ${stub.employeeName || stub.employeeUuid}`);
+  lines.push('');
+  lines.push(`**Check Date:** ${stub.checkDate || '-'} | **Pay Period:** ${payPeriod} | **Payment:** ${stub.paymentMethod || '-'}`);
+  lines.push('');
+
+  lines.push('### Earnings');
+  lines.push('| Item | Hours | Amount |');
+  lines.push('|---|---|---|');
+  for (const item of stub.earnings) {
+    lines.push(`| ${item.name} | ${item.hours || '-'} | ${formatMoney(item.amount)} |`);
+  }
+  lines.push(`| **Gross Pay** | | **${formatMoney(stub.grossPay)}** |`);
+  lines.push('');
+
+  const withheld = stub.taxes.filter((tax) => !tax.employer);
+  if (withheld.length > 0) {
+    lines.push('### Taxes Withheld');
+    lines.push('| Tax | Amount |');
+    lines.push('|---|---|');
+    for (const tax of withheld) {
+      lines.push(`| ${tax.name} | ${formatMoney(tax.amount)} |`);
+    }
+    lines.push('');
+  }
+
+  const benefits = stub.benefits.filter((b) => Number(b.employeeDeduction ?? 0) !== 0);
+  if (benefits.length > 0) {
+    lines.push('### Benefits');
+    lines.push('| Benefit | Deduction | Company Contribution |');
+    lines.push('|---|---|---|');
+    for (const b of benefits) {
+      lines.push(`| ${b.name} | ${formatMoney(b.employeeDeduction)} | ${formatMoney(b.companyContribution)} |`);
+    }
+    lines.push('');
+  }
+
+  if (stub.deductions.length > 0) {
+    lines.push('### Deductions');
+    lines.push('| Deduction | Amount |');
+    lines.push('|---|---|');
+    for (const d of stub.deductions) {
+      lines.push(`| ${d.name} | ${formatMoney(d.amount)} |`);
+    }
+    lines.push('');
+  }
+
+  lines.push(`**Net Pay:** ${formatMoney(stub.netPay)}`);
+  lines.push('');
+  lines.push(`PDF: ${stub.pdfUrl}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a payroll receipt as Markdown
+ */
+function formatPayrollReceiptAsMarkdown(receipt: PayrollReceipt): string {
+  const lines: string[] = [];
+  lines.push('## Payroll Receipt');
+  lines.push('');
+  lines.push(`**Payroll:** \`${receipt.payrollUuid}\` | **Debit Date:** ${receipt.debitDate || '-'}`);
+  lines.push('');
+
+  lines.push('### Debit');
+  lines.push('| Item | Amount |');
+  lines.push('|---|---|');
+  lines.push(`| Net pay | ${formatMoney(receipt.totals.netPayDebit)} |`);
+  lines.push(`| Taxes | ${formatMoney(receipt.totals.taxDebit)} |`);
+  lines.push(`| Reimbursements | ${formatMoney(receipt.totals.reimbursementDebit)} |`);
+  lines.push(`| Child support | ${formatMoney(receipt.totals.childSupportDebit)} |`);
+  lines.push(`| **Total** | **${formatMoney(receipt.totals.companyDebit)}** |`);
+  lines.push('');
+
+  if (receipt.taxes.length > 0) {
+    lines.push('### Taxes');
+    lines.push('| Tax | Amount |');
+    lines.push('|---|---|');
+    for (const tax of receipt.taxes) {
+      lines.push(`| ${tax.name} | ${formatMoney(tax.amount)} |`);
+    }
+    lines.push('');
+  }
+
+  lines.push('### Employees');
+  lines.push('| Employee | Payment | Net Pay | Taxes | Reimbursements | Garnishments |');
+  lines.push('|---|---|---|---|---|---|');
+  for (const ec of receipt.employeeCompensations) {
+    const name = `${ec.employeeFirstName || ''} ${ec.employeeLastName || ''}`.trim() || ec.employeeUuid || '-';
+    lines.push(
+      `| ${name} | ${ec.paymentMethod || '-'} | ${formatMoney(ec.netPay)} | ${formatMoney(ec.totalTax)} | ${formatMoney(ec.totalReimbursement)} | ${formatMoney(ec.totalGarnishments)} |`
+    );
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Format a single object as Markdown
  */
 function formatObjectAsMarkdown(data: Record<string, unknown>, entityType: string): string {
+  if (entityType === 'payrollReadiness') {
+    return formatPayrollReadinessAsMarkdown(data as unknown as PayrollReadiness);
+  }
+  if (entityType === 'payStub') {
+    return formatPayStubAsMarkdown(data as unknown as PayStub);
+  }
+  if (entityType === 'payrollReceipt') {
+    return formatPayrollReceiptAsMarkdown(data as unknown as PayrollReceipt);
+  }
+
   const lines: string[] = [];
   lines.push(`## ${capitalize(entityType.replace(/s$/, ''))}`);
   lines.push('');
@@ -300,6 +573,13 @@ function formatObjectAsMarkdown(data: Record<string, unknown>, entityType: strin
   return lines.join('\n');
 }
 
+/**
+ * Format a money amount, or '-' when missing
+ */
+function formatMoney(amount: string | undefined): string {
+  return amount ? `$${amount}` : '-';
+}
+
 /**
  * Capitalize first letter
  */
@@ -316,3 +596,115 @@ function formatKey(key: string): string {
     .replace(/^./, (str) => str.toUpperCase())
     .trim();
 }
+
+// =============================================================================
+// Truncation
+// =============================================================================
+
+interface ArrayLocation {
+  path: string[];
+  size: number;
+}
+
+function truncateText(text: string, limit: number): string {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return truncatePlainText(text, limit);
+  }
+
+  const location = findLargestArray(data, []);
+  return (location && trimLargestArray(data, location.path, limit)) ?? truncatePlainText(text, limit);
+}
+
+/**
+ * Find the array with the largest serialized size, searching object properties
+ */
+function findLargestArray(value: unknown, path: string[], depth = 0): ArrayLocation | undefined {
+  if (Array.isArray(value)) {
+    return { path, size: JSON.stringify(value).length };
+  }
+  if (!value || typeof value !== 'object' || depth > 3) {
+    return undefined;
+  }
+
+  let largest: ArrayLocation | undefined;
+  for (const [key, child] of Object.entries(value)) {
+    const found = findLargestArray(child, [...path, key], depth + 1);
+    if (found && (!largest || found.size > largest.size)) {
+      largest = found;
+    }
+  }
+  return largest;
+}
+
+/**
+ * Keep as many leading array entries as fit within the limit
+ */
+function trimLargestArray(data: unknown, path: string[], limit: number): string | undefined {
+  const entries = getPath(data, path) as unknown[];
+  const render = (shown: number) => JSON.stringify(withTrimmedArray(data, path, entries, shown, limit), null, 2);
+
+  if (render(0).length > limit) {
+    return undefined;
+  }
+
+  // Binary search for the largest prefix that fits
+  let low = 0;
+  let high = entries.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (render(mid).length <= limit) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return render(low);
+}
+
+function withTrimmedArray(
+  data: unknown,
+  path: string[],
+  entries: unknown[],
+  shown: number,
+  limit: number
+): unknown {
+  const field = path.join('.') || 'items';
+  const paginated = isPaginatedResponse(data) && field === 'items';
+  const truncated = {
+    field,
+    shown,
+    total: entries.length,
+    hint: paginated
+      ? `Response exceeded ${limit} characters. Request smaller pages (per=${Math.max(shown, 1)}) and page through the results to see the rest.`
+      : `Response exceeded ${limit} characters. Fetch individual records or use narrower filters to see the remaining ${field} entries.`,
+  };
+
+  if (path.length === 0) {
+    return { items: entries.slice(0, shown), count: shown, truncated };
+  }
+  const trimmed = setPath(data, path, entries.slice(0, shown)) as Record<string, unknown>;
+  return paginated ? { ...trimmed, count: shown, truncated } : { ...trimmed, truncated };
+}
+
+function getPath(data: unknown, path: string[]): unknown {
+  return path.reduce<unknown>((value, key) => (value as Record<string, unknown>)[key], data);
+}
+
+function setPath(data: unknown, path: string[], replacement: unknown): unknown {
+  if (path.length === 0) {
+    return replacement;
+  }
+  const [key, ...rest] = path;
+  const record = data as Record<string, unknown>;
+  return { ...record, [key]: setPath(record[key], rest, replacement) };
+}
+
+function truncatePlainText(text: string, limit: number): string {
+  const notice = `\n\n_Response truncated at ${limit} characters. Request smaller pages (per) or use narrower filters to see the rest._`;
+  const cut = text.slice(0, Math.max(0, limit - notice.length));
+  const lineBreak = cut.lastIndexOf('\n');
+  return `${lineBreak > cut.length / 2 ? cut.slice(0, lineBreak) : cut}${notice}`;
+}
@@ -1,3 +1,9 @@
+export * from './confirmation.js';
+export * from './csv.js';
 export * from './errors.js';
 export * from './formatters.js';
 export * from './pagination.js';
+export * from './payroll.js';
+export * from './redaction.js';
+export * from './retry.js';
+export * from './versions.js';
@@ -7,27 +7,137 @@
 
 import type { PaginatedResponse, PaginationParams } from '../types/entities.js';
 
+/**
+ * Page size limits (configurable via DEFAULT_PAGE_SIZE and MAX_PAGE_SIZE)
+ */
+export interface PaginationLimits {
+  /** Page size used when the caller does not pass `per` */
+  per: number;
+  /** Largest page size a caller may request */
+  maxPer: number;
+}
+
 /**
  * Default pagination settings
  */
-export const PAGINATION_DEFAULTS = {
+export const PAGINATION_DEFAULTS: PaginationLimits = {
   per: 25,
   maxPer: 100,
-} as const;
+};
 
 /**
- * Normalize pagination parameters
+ * Normalize pagination parameters, clamping `per` to the configured maximum
  */
 export function normalizePaginationParams(
   params?: PaginationParams,
-  maxPer = PAGINATION_DEFAULTS.maxPer
+  limits: PaginationLimits = PAGINATION_DEFAULTS
 ): Required<Pick<PaginationParams, 'per'>> & Omit<PaginationParams, 'per'> {
+  const maxPer = Math.max(1, limits.maxPer);
   return {
-    per: Math.min(params?.per || PAGINATION_DEFAULTS.per, maxPer),
+    per: Math.max(1, Math.min(params?.per || limits.per, maxPer)),
     page: params?.page,
   };
 }
 
+/**
+ * Safety cap for "fetch all" requests
+ */
+export const FETCH_ALL_LIMITS = {
+  maxItems: 1000,
+  maxPages: 50,
+} as const;
+
+/**
+ * Build a paginated response for one page, using Gusto's pagination headers.
+ *
+ * Gusto reports the total in `X-Total-Count` and links the next page in the
+ * `Link` header. When neither header is present, a full page is taken to
+ * mean there may be more.
+ */
+export function paginateFromHeaders<T>(
+  items: T[],
+  headers: Headers,
+  params: { page?: number; per: number }
+): PaginatedResponse<T> {
+  const page = params.page || 1;
+  const totalHeader = headers.get('X-Total-Count');
+  const total = totalHeader !== null ? Number.parseInt(totalHeader, 10) : Number.NaN;
+  const links = parseLinkHeader(headers.get('Link'));
+
+  let nextPage: number | undefined;
+  if (links.next) {
+    nextPage = getPageFromUrl(links.next) ?? page + 1;
+  } else if (!Number.isNaN(total)) {
+    nextPage = getNextPage(page, params.per, total);
+  } else if (!headers.has('Link')) {
+    nextPage = items.length === params.per ? page + 1 : undefined;
+  }
+
+  return createPaginatedResponse(items, {
+    total: Number.isNaN(total) ? undefined : total,
+    hasMore: nextPage !== undefined,
+    nextPage,
+  });
+}
+
+/**
+ * Parse an RFC 8288 Link header into a map of rel to URL
+ */
+export function parseLinkHeader(value: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!value) return links;
+
+  for (const part of value.split(',')) {
+    const match = part.match(/<([^>]*)>\s*;\s*rel="?([^";]+)"?/);
+    if (match) {
+      for (const rel of match[2].trim().split(/\s+/)) {
+        links[rel] = match[1];
+      }
+    }
+  }
+  return links;
+}
+
+/**
+ * Fetch consecutive pages until there are no more or the safety cap is hit.
+ * When the cap is hit, `hasMore` and `nextPage` point at the first unfetched page.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number) => Promise<PaginatedResponse<T>>,
+  startPage = 1,
+  limits: { maxItems: number; maxPages: number } = FETCH_ALL_LIMITS
+): Promise<PaginatedResponse<T>> {
+  const items: T[] = [];
+  let page: number | undefined = startPage;
+  let total: number | undefined;
+
+  for (let fetched = 0; page !== undefined; fetched++) {
+    if (fetched >= limits.maxPages || items.length >= limits.maxItems) {
+      break;
+    }
+    const result = await fetchPage(page);
+    items.push(...result.items);
+    total = result.total ?? total;
+    page = result.hasMore ? (result.nextPage ?? page + 1) : undefined;
+  }
+
+  return createPaginatedResponse(items, {
+    total,
+    hasMore: page !== undefined,
+    nextPage: page,
+  });
+}
+
+function getPageFromUrl(url: string): number | undefined {
+  try {
+    const value = new URL(url, 'https://api.gusto.com').searchParams.get('page');
+    const page = Number.parseInt(value ?? '', 10);
+    return Number.isNaN(page) ? undefined : page;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Create an empty paginated response
  */
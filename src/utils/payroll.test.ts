@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import type { EmployeeCompensation } from '../types/entities.js';
+import { ValidationError } from './errors.js';
+import { diffEmployeeCompensations, mergeEmployeeCompensations } from './payroll.js';
+
+const CURRENT: EmployeeCompensation[] = [
+  {
+    employeeUuid: 'e1',
+    excluded: false,
+    hourlyCompensations: [
+      { name: 'Regular Hours', hours: '40.000', jobUuid: 'j1' },
+      { name: 'Overtime', hours: '0.000', jobUuid: 'j1' },
+    ],
+    fixedCompensations: [{ name: 'Bonus', amount: '0.00', jobUuid: 'j1' }],
+    paidTimeOff: [{ name: 'Vacation Hours', hours: '0.000' }],
+  },
+  {
+    employeeUuid: 'e2',
+    hourlyCompensations: [
+      { name: 'Regular Hours', hours: '20.000', jobUuid: 'j2' },
+      { name: 'Regular Hours', hours: '10.000', jobUuid: 'j3' },
+    ],
+  },
+];
+
+describe('mergeEmployeeCompensations', () => {
+  it('replaces matching entries and keeps the ones not mentioned', () => {
+    const [merged] = mergeEmployeeCompensations(CURRENT, [
+      { employeeUuid: 'e1', hourlyCompensations: [{ name: 'Regular Hours', hours: '32' }] },
+    ]);
+
+    expect(merged.hourlyCompensations).toEqual([
+      { name: 'Regular Hours', hours: '32', jobUuid: 'j1' },
+      { name: 'Overtime', hours: '0.000', jobUuid: 'j1' },
+    ]);
+    expect(merged.fixedCompensations).toEqual([{ name: 'Bonus', amount: '0.00', jobUuid: 'j1' }]);
+    expect(merged.paidTimeOff).toEqual([{ name: 'Vacation Hours', hours: '0.000' }]);
+    expect(merged.excluded).toBe(false);
+  });
+
+  it('adds entries the payroll does not have yet', () => {
+    const [merged] = mergeEmployeeCompensations(CURRENT, [
+      { employeeUuid: 'e1', fixedCompensations: [{ name: 'Reimbursement', amount: '25.00' }] },
+    ]);
+
+    expect(merged.fixedCompensations).toEqual([
+      { name: 'Bonus', amount: '0.00', jobUuid: 'j1' },
+      { name: 'Reimbursement', amount: '25.00', jobUuid: undefined },
+    ]);
+  });
+
+  it('excludes an employee without dropping their entries', () => {
+    const [merged] = mergeEmployeeCompensations(CURRENT, [{ employeeUuid: 'e1', excluded: true }]);
+
+    expect(merged.excluded).toBe(true);
+    expect(merged.hourlyCompensations).toHaveLength(2);
+  });
+
+  it('returns only the changed employees', () => {
+    const merged = mergeEmployeeCompensations(CURRENT, [{ employeeUuid: 'e1', excluded: true }]);
+
+    expect(merged.map((ec) => ec.employeeUuid)).toEqual(['e1']);
+  });
+
+  it('rejects employees that are not on the payroll', () => {
+    expect(() => mergeEmployeeCompensations(CURRENT, [{ employeeUuid: 'e9' }])).toThrow(
+      ValidationError
+    );
+  });
+
+  it('updates the named job for employees with several jobs', () => {
+    const [merged] = mergeEmployeeCompensations(CURRENT, [
+      {
+        employeeUuid: 'e2',
+        hourlyCompensations: [{ name: 'Regular Hours', hours: '12', jobUuid: 'j3' }],
+      },
+    ]);
+
+    expect(merged.hourlyCompensations).toEqual([
+      { name: 'Regular Hours', hours: '20.000', jobUuid: 'j2' },
+      { name: 'Regular Hours', hours: '12', jobUuid: 'j3' },
+    ]);
+  });
+
+  it('rejects changes without a job for employees with several jobs', () => {
+    expect(() =>
+      mergeEmployeeCompensations(CURRENT, [
+        { employeeUuid: 'e2', hourlyCompensations: [{ name: 'Regular Hours', hours: '12' }] },
+      ])
+    ).toThrow('Pass jobUuid for Regular Hours');
+  });
+});
+
+describe('diffEmployeeCompensations', () => {
+  it('lists changed values per employee and job', () => {
+    const after: EmployeeCompensation[] = [
+      {
+        ...CURRENT[0],
+        excluded: true,
+        fixedCompensations: [
+          { name: 'Bonus', amount: '100.00', jobUuid: 'j1' },
+          { name: 'Reimbursement', amount: '25.00', jobUuid: 'j1' },
+        ],
+      },
+      {
+        employeeUuid: 'e2',
+        hourlyCompensations: [
+          { name: 'Regular Hours', hours: '20.000', jobUuid: 'j2' },
+          { name: 'Regular Hours', hours: '12.000', jobUuid: 'j3' },
+        ],
+      },
+    ];
+
+    expect(diffEmployeeCompensations(CURRENT, after, ['e1', 'e2'])).toEqual([
+      { employeeUuid: 'e1', item: 'excluded', before: false, after: true },
+      { employeeUuid: 'e1', item: 'Bonus', jobUuid: 'j1', before: '0.00', after: '100.00' },
+      { employeeUuid: 'e1', item: 'Reimbursement', jobUuid: 'j1', before: null, after: '25.00' },
+      {
+        employeeUuid: 'e2',
+        item: 'Regular Hours',
+        jobUuid: 'j3',
+        before: '10.000',
+        after: '12.000',
+      },
+    ]);
+  });
+
+  it('ignores values that only differ in formatting', () => {
+    const after: EmployeeCompensation[] = [
+      {
+        ...CURRENT[0],
+        hourlyCompensations: [
+          { name: 'Regular Hours', hours: '40', jobUuid: 'j1' },
+          { name: 'Overtime', hours: '0', jobUuid: 'j1' },
+        ],
+      },
+    ];
+
+    expect(diffEmployeeCompensations(CURRENT, after, ['e1'])).toEqual([]);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Payroll Compensation Changes
+ *
+ * Gusto replaces an employee's compensation lists when a payroll is updated,
+ * so edits are merged into the payroll's current compensations before they
+ * are sent. The diff helpers summarize what an update changed.
+ */
+
+import type { EmployeeCompensation, PayrollUpdateInput } from '../types/entities.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * Changes for one employee on a payroll
+ */
+export type EmployeeCompensationChange = PayrollUpdateInput['employeeCompensations'][number];
+
+/**
+ * One changed value on a payroll
+ */
+export interface CompensationDiff {
+  employeeUuid: string;
+  /** Compensation name (e.g. `Regular Hours`, `Bonus`) or `excluded` */
+  item: string;
+  jobUuid?: string;
+  before: string | boolean | null;
+  after: string | boolean | null;
+}
+
+interface CompensationEntry {
+  name: string;
+  jobUuid?: string;
+  value?: string;
+}
+
+/**
+ * Merge changes into the payroll's current compensations. Entries are matched
+ * by name (and job, when given); entries not mentioned are kept as they are.
+ * Changes for an employee paid on several jobs must name the job, since a
+ * name alone would match the entry of whichever job comes first.
+ * Returns the full compensation lists for the changed employees only.
+ */
+export function mergeEmployeeCompensations(
+  current: EmployeeCompensation[],
+  changes: EmployeeCompensationChange[]
+): EmployeeCompensationChange[] {
+  return changes.map((change) => {
+    const existing = current.find((ec) => ec.employeeUuid === change.employeeUuid);
+    if (!existing) {
+      throw new ValidationError(`Employee ${change.employeeUuid} is not on this payroll.`);
+    }
+    assertJobsGiven(existing, change);
+
+    return {
+      employeeUuid: change.employeeUuid,
+      excluded: change.excluded ?? existing.excluded,
+      fixedCompensations: mergeEntries(
+        toEntries(existing.fixedCompensations, (fc) => fc.amount),
+        toEntries(change.fixedCompensations, (fc) => fc.amount)
+      ).map(({ name, jobUuid, value }) => ({ name, jobUuid, amount: value ?? '0' })),
+      hourlyCompensations: mergeEntries(
+        toEntries(existing.hourlyCompensations, (hc) => hc.hours),
+        toEntries(change.hourlyCompensations, (hc) => hc.hours)
+      ).map(({ name, jobUuid, value }) => ({ name, jobUuid, hours: value ?? '0' })),
+      paidTimeOff: mergeEntries(
+        toEntries(existing.paidTimeOff, (pto) => pto.hours),
+        toEntries(change.paidTimeOff, (pto) => pto.hours)
+      ).map(({ name, value }) => ({ name, hours: value ?? '0' })),
+    };
+  });
+}
+
+/**
+ * List the values that differ between two versions of a payroll's
+ * compensations, for the given employees
+ */
+export function diffEmployeeCompensations(
+  before: EmployeeCompensation[],
+  after: EmployeeCompensation[],
+  employeeUuids: string[]
+): CompensationDiff[] {
+  const diffs: CompensationDiff[] = [];
+
+  for (const employeeUuid of employeeUuids) {
+    const previous = before.find((ec) => ec.employeeUuid === employeeUuid);
+    const next = after.find((ec) => ec.employeeUuid === employeeUuid);
+
+    if (Boolean(previous?.excluded) !== Boolean(next?.excluded)) {
+      diffs.push({
+        employeeUuid,
+        item: 'excluded',
+        before: Boolean(previous?.excluded),
+        after: Boolean(next?.excluded),
+      });
+    }
+
+    const lists = [
+      [
+        toEntries(previous?.hourlyCompensations, (hc) => hc.hours),
+        toEntries(next?.hourlyCompensations, (hc) => hc.hours),
+      ],
+      [
+        toEntries(previous?.fixedCompensations, (fc) => fc.amount),
+        toEntries(next?.fixedCompensations, (fc) => fc.amount),
+      ],
+      [
+        toEntries(previous?.paidTimeOff, (pto) => pto.hours),
+        toEntries(next?.paidTimeOff, (pto) => pto.hours),
+      ],
+    ];
+    for (const [oldEntries, newEntries] of lists) {
+      for (const entry of unionEntries(oldEntries, newEntries)) {
+        const oldValue = findEntry(oldEntries, entry)?.value ?? null;
+        const newValue = findEntry(newEntries, entry)?.value ?? null;
+        if (!sameAmount(oldValue, newValue)) {
+          diffs.push({
+            employeeUuid,
+            item: entry.name,
+            jobUuid: entry.jobUuid,
+            before: oldValue,
+            after: newValue,
+          });
+        }
+      }
+    }
+  }
+
+  return diffs;
+}
+
+/**
+ * Reject hourly or fixed changes without a job for employees with several jobs
+ */
+function assertJobsGiven(existing: EmployeeCompensation, change: EmployeeCompensationChange): void {
+  const jobUuids = new Set(
+    [...(existing.fixedCompensations ?? []), ...(existing.hourlyCompensations ?? [])]
+      .map((entry) => entry.jobUuid)
+      .filter(Boolean)
+  );
+  if (jobUuids.size <= 1) {
+    return;
+  }
+
+  const withoutJob = [
+    ...(change.fixedCompensations ?? []),
+    ...(change.hourlyCompensations ?? []),
+  ].filter((entry) => !entry.jobUuid);
+  if (withoutJob.length > 0) {
+    throw new ValidationError(
+      `Employee ${change.employeeUuid} is paid on several jobs (${[...jobUuids].join(', ')}). Pass jobUuid for ${withoutJob.map((entry) => entry.name).join(', ')}.`
+    );
+  }
+}
+
+function toEntries<T extends { name?: string; jobUuid?: string }>(
+  items: T[] | undefined,
+  value: (item: T) => string | undefined
+): CompensationEntry[] {
+  return (items ?? [])
+    .filter((item) => item.name)
+    .map((item) => ({ name: item.name as string, jobUuid: item.jobUuid, value: value(item) }));
+}
+
+function findEntry(
+  entries: CompensationEntry[],
+  key: CompensationEntry
+): CompensationEntry | undefined {
+  return entries.find(
+    (entry) =>
+      entry.name === key.name && (!key.jobUuid || !entry.jobUuid || entry.jobUuid === key.jobUuid)
+  );
+}
+
+function mergeEntries(
+  current: CompensationEntry[],
+  changes: CompensationEntry[]
+): CompensationEntry[] {
+  const merged = [...current];
+  for (const change of changes) {
+    const existing = findEntry(merged, change);
+    if (existing) {
+      merged[merged.indexOf(existing)] = {
+        ...existing,
+        jobUuid: change.jobUuid ?? existing.jobUuid,
+        value: change.value,
+      };
+    } else {
+      merged.push(change);
+    }
+  }
+  return merged;
+}
+
+function unionEntries(a: CompensationEntry[], b: CompensationEntry[]): CompensationEntry[] {
+  return [...a, ...b.filter((entry) => !findEntry(a, entry))];
+}
+
+function sameAmount(a: string | null, b: string | null): boolean {
+  return Number(a ?? 0) === Number(b ?? 0);
+}
@@ -0,0 +1,47 @@
+/**
+ * Redaction Utilities
+ *
+ * Masks sensitive identifiers before they are returned to the model. Only
+ * the last four characters are kept, so documents can still be told apart.
+ */
+
+/**
+ * I-9 fields holding immigration and identity document numbers
+ */
+export const I9_SENSITIVE_FIELDS = [
+  'alienNumber',
+  'i94Number',
+  'foreignPassportNumber',
+  'documentNumber',
+];
+
+/**
+ * Mask all but the last four characters of a value
+ */
+export function maskValue(value: string): string {
+  if (value.length <= 4) {
+    return '*'.repeat(value.length);
+  }
+  return `${'*'.repeat(value.length - 4)}${value.slice(-4)}`;
+}
+
+/**
+ * Return a copy of the value with the named fields masked at any depth
+ */
+export function redactFields<T>(value: T, fields: readonly string[]): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactFields(item, fields)) as T;
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    redacted[key] =
+      fields.includes(key) && typeof child === 'string' && child !== ''
+        ? maskValue(child)
+        : redactFields(child, fields);
+  }
+  return redacted as T;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { CrmApiError, RateLimitError } from './errors.js';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelayMs,
+  isIdempotentRequest,
+  parseRetryAfter,
+} from './retry.js';
+
+describe('parseRetryAfter', () => {
+  it('parses delta-seconds', () => {
+    expect(parseRetryAfter('12')).toBe(12);
+  });
+
+  it('parses an HTTP date', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', now)).toBe(30);
+  });
+
+  it('ignores missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('getRetryDelayMs', () => {
+  it('waits for Retry-After on rate limits', () => {
+    expect(getRetryDelayMs(new RateLimitError('Slow down', 7), 0, DEFAULT_RETRY_OPTIONS)).toBe(
+      7000
+    );
+  });
+
+  it('backs off with jitter on rate limits without Retry-After', () => {
+    const delay = getRetryDelayMs(
+      new RateLimitError('Slow down'),
+      1,
+      DEFAULT_RETRY_OPTIONS,
+      () => 0.5
+    );
+    expect(delay).toBe(500);
+  });
+
+  it('caps exponential backoff at maxDelayMs', () => {
+    const error = new CrmApiError('Unavailable', 503, undefined, true);
+    expect(getRetryDelayMs(error, 10, DEFAULT_RETRY_OPTIONS, () => 0.999)).toBeLessThan(
+      DEFAULT_RETRY_OPTIONS.maxDelayMs
+    );
+  });
+});
+
+describe('isIdempotentRequest', () => {
+  it('replays safe methods', () => {
+    expect(isIdempotentRequest('GET')).toBe(true);
+    expect(isIdempotentRequest('PUT')).toBe(true);
+  });
+
+  it('replays POST only with an Idempotency-Key', () => {
+    expect(isIdempotentRequest('POST')).toBe(false);
+    expect(isIdempotentRequest('POST', { 'Idempotency-Key': 'abc' })).toBe(true);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Retry Utilities
+ *
+ * Backoff and retry-eligibility helpers used by the Gusto client.
+ * Rate-limited responses honor Retry-After; server and network errors, and
+ * rate-limited responses without Retry-After, use exponential backoff with
+ * full jitter.
+ */
+
+import { RateLimitError } from './errors.js';
+
+/**
+ * Retry policy for API requests
+ */
+export interface RetryOptions {
+  /** Maximum number of retries after the initial attempt */
+  maxRetries: number;
+  /** Base delay for exponential backoff (ms) */
+  baseDelayMs: number;
+  /** Maximum delay for a single backoff step (ms) */
+  maxDelayMs: number;
+  /** Maximum total time spent waiting across all retries (ms) */
+  maxTotalWaitMs: number;
+}
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  maxTotalWaitMs: 30_000,
+};
+
+/**
+ * Methods that are safe to replay without side effects
+ */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into seconds
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.ceil(seconds));
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+/**
+ * Check whether a request may be replayed.
+ * POST and PATCH are only replayed when an Idempotency-Key header is present.
+ */
+export function isIdempotentRequest(method = 'GET', headers?: HeadersInit): boolean {
+  if (IDEMPOTENT_METHODS.has(method.toUpperCase())) {
+    return true;
+  }
+  return new Headers(headers).has('Idempotency-Key');
+}
+
+/**
+ * Calculate the delay before the next retry attempt.
+ * Rate limit errors wait for Retry-After when Gusto sent one; everything
+ * else uses full jitter.
+ *
+ * @param attempt - Zero-based retry attempt number
+ */
+export function getRetryDelayMs(
+  error: unknown,
+  attempt: number,
+  options: RetryOptions,
+  random: () => number = Math.random
+): number {
+  if (error instanceof RateLimitError && error.retryAfterSeconds !== undefined) {
+    return error.retryAfterSeconds * 1000;
+  }
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
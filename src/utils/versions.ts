@@ -0,0 +1,78 @@
+/**
+ * API Version Utilities
+ *
+ * Gusto versions its API by date via the X-Gusto-API-Version header.
+ * Tenants may be pinned to different versions, so raw payloads are adapted
+ * to the current field names before the client maps them to entities.
+ */
+
+/**
+ * API version sent when the tenant does not override it
+ */
+export const DEFAULT_API_VERSION = '2024-04-01';
+
+/**
+ * Header used to request (and report) the API version
+ */
+export const API_VERSION_HEADER = 'X-Gusto-API-Version';
+
+/**
+ * Resources whose payload shape differs between API versions
+ */
+export type VersionedResource = 'employee' | 'payroll';
+
+/**
+ * A field that was renamed in a given API version
+ */
+interface FieldRename {
+  resource: VersionedResource;
+  /** Version that introduced the current field name */
+  since: string;
+  /** Field name used by earlier versions */
+  from: string;
+  /** Field name used from `since` onwards */
+  to: string;
+}
+
+/**
+ * Known field renames, oldest first
+ */
+const FIELD_RENAMES: FieldRename[] = [
+  {
+    resource: 'employee',
+    since: '2023-09-01',
+    from: 'employment_status',
+    to: 'current_employment_status',
+  },
+  { resource: 'payroll', since: '2024-04-01', from: 'payroll_uuid', to: 'uuid' },
+];
+
+/**
+ * Compare two date-based API versions (YYYY-MM-DD)
+ */
+export function compareApiVersions(a: string, b: string): number {
+  return a.localeCompare(b);
+}
+
+/**
+ * Adapt a raw payload returned under `apiVersion` to the field names of the
+ * latest supported version. Fields already present are never overwritten.
+ */
+export function adaptPayload(
+  resource: VersionedResource,
+  payload: Record<string, unknown>,
+  apiVersion: string
+): Record<string, unknown> {
+  const renames = FIELD_RENAMES.filter(
+    (rename) => rename.resource === resource && compareApiVersions(apiVersion, rename.since) < 0
+  );
+  if (renames.length === 0) return payload;
+
+  const adapted = { ...payload };
+  for (const { from, to } of renames) {
+    if (adapted[to] === undefined && adapted[from] !== undefined) {
+      adapted[to] = adapted[from];
+    }
+  }
+  return adapted;
+}
@@ -0,0 +1,216 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryKv } from '../test/memory-kv.js';
+import type { Env } from '../types/env.js';
+import { handleWebhookRequest } from './receiver.js';
+import { getVerificationToken, putVerificationToken } from './store.js';
+
+const ctx = { waitUntil: () => {} } as unknown as ExecutionContext;
+
+async function signHex(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function post(body: string, signature?: string): Request {
+  return new Request('https://mcp.example.com/webhooks/gusto', {
+    method: 'POST',
+    headers: signature ? { 'X-Gusto-Signature': signature } : {},
+    body,
+  });
+}
+
+function createEnv(): Env {
+  return { WEBHOOK_KV: createMemoryKv() } as unknown as Env;
+}
+
+function createEvent(ageSeconds = 0): string {
+  const timestamp = Math.floor(Date.now() / 1000) - ageSeconds;
+  return JSON.stringify({ uuid: 'e1', event_type: 'employee.updated', timestamp });
+}
+
+const EVENT = createEvent();
+
+describe('handleWebhookRequest', () => {
+  it('accepts events signed with a verified token', async () => {
+    const env = createEnv();
+    await putVerificationToken(env.WEBHOOK_KV as KVNamespace, {
+      subscriptionUuid: 's1',
+      verificationToken: 'verified-token',
+      receivedAt: 0,
+      verifiedAt: 1,
+    });
+
+    const response = await handleWebhookRequest(
+      post(EVENT, await signHex('verified-token', EVENT)),
+      env,
+      ctx
+    );
+
+    expect(response.status).toBe(200);
+  });
+
+  it('rejects events signed with a token from an unverified handshake', async () => {
+    const env = createEnv();
+    await handleWebhookRequest(
+      post(JSON.stringify({ verification_token: 'forged', webhook_subscription_uuid: 's2' })),
+      env,
+      ctx
+    );
+
+    const response = await handleWebhookRequest(
+      post(EVENT, await signHex('forged', EVENT)),
+      env,
+      ctx
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it('does not let a handshake replace a verified token', async () => {
+    const env = createEnv();
+    const kv = env.WEBHOOK_KV as KVNamespace;
+    await putVerificationToken(kv, {
+      subscriptionUuid: 's1',
+      verificationToken: 'verified-token',
+      receivedAt: 0,
+      verifiedAt: 1,
+    });
+
+    const response = await handleWebhookRequest(
+      post(JSON.stringify({ verification_token: 'forged', webhook_subscription_uuid: 's1' })),
+      env,
+      ctx
+    );
+
+    expect(response.status).toBe(409);
+    expect(await getVerificationToken(kv, 's1')).toMatchObject({
+      verificationToken: 'verified-token',
+    });
+  });
+
+  it('keeps a pending token when a different one arrives within a minute', async () => {
+    const env = createEnv();
+    const kv = env.WEBHOOK_KV as KVNamespace;
+    await putVerificationToken(kv, {
+      subscriptionUuid: 's1',
+      verificationToken: 'gusto-token',
+      receivedAt: Date.now(),
+    });
+
+    const response = await handleWebhookRequest(
+      post(JSON.stringify({ verification_token: 'forged', webhook_subscription_uuid: 's1' })),
+      env,
+      ctx
+    );
+
+    expect(response.status).toBe(409);
+    expect(response.headers.get('Retry-After')).toBe('60');
+    expect(await getVerificationToken(kv, 's1')).toMatchObject({
+      verificationToken: 'gusto-token',
+    });
+  });
+
+  it('rejects a replayed delivery older than the replay window', async () => {
+    const env = createEnv();
+    await putVerificationToken(env.WEBHOOK_KV as KVNamespace, {
+      subscriptionUuid: 's1',
+      verificationToken: 'verified-token',
+      receivedAt: 0,
+      verifiedAt: 1,
+    });
+    const event = createEvent(31 * 24 * 60 * 60);
+
+    const response = await handleWebhookRequest(
+      post(event, await signHex('verified-token', event)),
+      env,
+      ctx
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'stale_event' });
+  });
+});
+
+describe('automatic verification', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /**
+   * Stub Gusto's token and webhook subscription endpoints, recording each call
+   */
+  function stubGusto(status: string) {
+    const calls: string[] = [];
+    vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      calls.push(`${init?.method ?? 'GET'} ${url.pathname}`);
+      if (url.pathname === '/oauth/token') {
+        return Response.json({ access_token: 'system-token', expires_in: 7200 });
+      }
+      return Response.json({ uuid: 's1', status });
+    });
+    return calls;
+  }
+
+  async function handshake(env: Env, token = 'token') {
+    const pending: Promise<unknown>[] = [];
+    const response = await handleWebhookRequest(
+      post(JSON.stringify({ verification_token: token, webhook_subscription_uuid: 's1' })),
+      env,
+      {
+        waitUntil: (promise: Promise<unknown>) => pending.push(promise),
+      } as unknown as ExecutionContext
+    );
+    await Promise.all(pending);
+    return (await response.json()) as { autoVerify: boolean };
+  }
+
+  function createAppEnv(): Env {
+    return {
+      WEBHOOK_KV: createMemoryKv(),
+      GUSTO_CLIENT_ID: 'client',
+      GUSTO_CLIENT_SECRET: 'secret',
+    } as unknown as Env;
+  }
+
+  it('verifies a pending subscription', async () => {
+    const calls = stubGusto('pending');
+    const env = createAppEnv();
+
+    expect((await handshake(env)).autoVerify).toBe(true);
+    expect(calls).toContain('PUT /v1/webhook_subscriptions/s1/verify');
+    expect(await getVerificationToken(env.WEBHOOK_KV as KVNamespace, 's1')).toMatchObject({
+      verifiedAt: expect.any(Number),
+    });
+  });
+
+  it('does not verify a subscription that is not pending', async () => {
+    const calls = stubGusto('verified');
+    const env = createAppEnv();
+
+    await handshake(env);
+
+    expect(calls).not.toContain('PUT /v1/webhook_subscriptions/s1/verify');
+    expect(await getVerificationToken(env.WEBHOOK_KV as KVNamespace, 's1')).toMatchObject({
+      verificationError: expect.stringContaining('not pending'),
+    });
+  });
+
+  it('attempts verification once a minute per subscription', async () => {
+    const calls = stubGusto('failed');
+    const env = createAppEnv();
+
+    await handshake(env, 'first');
+    const second = await handshake(env, 'first');
+
+    expect(second.autoVerify).toBe(false);
+    expect(calls.filter((call) => call === 'POST /oauth/token')).toHaveLength(1);
+  });
+});
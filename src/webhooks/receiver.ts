@@ -0,0 +1,281 @@
+/**
+ * Gusto Webhook Receiver
+ *
+ * Route:
+ * - POST /webhooks/gusto - Receives deliveries for webhook subscriptions
+ *
+ * Gusto first posts a verification token for each new subscription; the
+ * receiver stores it and, when the OAuth app credentials are configured,
+ * PUTs it back with a system access token so the subscription moves from
+ * `pending` to `verified`. Automatic verification only runs for subscriptions
+ * Gusto reports as pending, at most once a minute each. Every later delivery
+ * is signed with that token (`X-Gusto-Signature`, a hex HMAC-SHA256 of the
+ * raw body). The handshake itself is unauthenticated, so only tokens Gusto
+ * has accepted (or GUSTO_WEBHOOK_VERIFICATION_TOKEN) are trusted as signers.
+ * A handshake never replaces an accepted token, nor a pending one received
+ * within the last minute. Signed events are normalized and stored in
+ * WEBHOOK_KV; an event UUID that was already stored is rejected as a replay,
+ * as is an event older than the 30 days its UUID is remembered.
+ */
+
+import { requestGustoToken } from '../auth/index.js';
+import { createGustoClient } from '../client.js';
+import type { GustoEvent } from '../types/entities.js';
+import type { Env } from '../types/env.js';
+import {
+  ATTEMPT_TTL_SECONDS,
+  claimVerificationAttempt,
+  EVENT_TTL_SECONDS,
+  getReceivedEvent,
+  getVerificationToken,
+  listVerificationTokens,
+  putReceivedEvent,
+  putVerificationToken,
+  type StoredVerificationToken,
+} from './store.js';
+
+/**
+ * Path handled by handleWebhookRequest
+ */
+export const WEBHOOK_PATH = '/webhooks/gusto';
+
+/**
+ * Handle the /webhooks/gusto route
+ */
+export async function handleWebhookRequest(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'method_not_allowed' }, 405);
+  }
+  if (!env.WEBHOOK_KV) {
+    return jsonResponse(
+      { error: 'not_configured', message: 'Webhooks require the WEBHOOK_KV binding.' },
+      501
+    );
+  }
+  const kv = env.WEBHOOK_KV;
+
+  const body = await request.text();
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(body) as Record<string, unknown>;
+  } catch {
+    return jsonResponse({ error: 'invalid_request', message: 'Body must be JSON' }, 400);
+  }
+
+  // Verification handshake, sent once per subscription (and on token requests)
+  if (
+    typeof payload.verification_token === 'string' &&
+    typeof payload.webhook_subscription_uuid === 'string'
+  ) {
+    const existing = await getVerificationToken(kv, payload.webhook_subscription_uuid);
+    if (existing?.verifiedAt) {
+      return jsonResponse(
+        {
+          error: 'already_verified',
+          message: `Subscription ${existing.subscriptionUuid} is already verified`,
+        },
+        409
+      );
+    }
+    // A different token inside the attempt window may be a forged handshake
+    // racing the real one; keep the first and let Gusto retry later.
+    if (
+      existing &&
+      existing.verificationToken !== payload.verification_token &&
+      Date.now() - existing.receivedAt < ATTEMPT_TTL_SECONDS * 1000
+    ) {
+      return jsonResponse(
+        {
+          error: 'verification_pending',
+          message: `Subscription ${existing.subscriptionUuid} received a verification token less than a minute ago`,
+        },
+        409,
+        { 'Retry-After': String(ATTEMPT_TTL_SECONDS) }
+      );
+    }
+
+    const token: StoredVerificationToken = {
+      subscriptionUuid: payload.webhook_subscription_uuid,
+      verificationToken: payload.verification_token,
+      receivedAt: Date.now(),
+    };
+    await putVerificationToken(kv, token);
+
+    // Verify after acknowledging, so Gusto is not kept waiting on its own API.
+    // The handshake is unauthenticated, so each subscription gets one attempt
+    // per minute rather than one system token request per POST.
+    const autoVerify =
+      Boolean(env.GUSTO_CLIENT_ID && env.GUSTO_CLIENT_SECRET) &&
+      (await claimVerificationAttempt(kv, token.subscriptionUuid));
+    if (autoVerify) {
+      ctx.waitUntil(completeVerification(kv, env, token));
+    }
+    return jsonResponse({
+      status: 'verification_token_received',
+      subscriptionUuid: token.subscriptionUuid,
+      autoVerify,
+    });
+  }
+
+  const signature = request.headers.get('X-Gusto-Signature');
+  if (!signature) {
+    return jsonResponse({ error: 'unauthorized', message: 'Missing X-Gusto-Signature' }, 401);
+  }
+  const signer = await findSigner(kv, env, body, signature);
+  if (!signer) {
+    return jsonResponse({ error: 'unauthorized', message: 'Invalid signature' }, 401);
+  }
+
+  const event = normalizeWebhookEvent(payload);
+  if (!event) {
+    return jsonResponse({ error: 'invalid_request', message: 'Event has no uuid' }, 400);
+  }
+  // Event UUIDs are only remembered for EVENT_TTL_SECONDS, so older
+  // deliveries could be replayed unnoticed
+  const eventTime = event.timestamp ? Date.parse(event.timestamp) : Number.NaN;
+  if (Number.isNaN(eventTime) || Date.now() - eventTime > EVENT_TTL_SECONDS * 1000) {
+    return jsonResponse(
+      { error: 'stale_event', message: `Event ${event.uuid} has no timestamp or is too old` },
+      400
+    );
+  }
+  if (await getReceivedEvent(kv, event.uuid)) {
+    return jsonResponse(
+      { error: 'replayed', message: `Event ${event.uuid} was already received` },
+      409
+    );
+  }
+
+  await putReceivedEvent(kv, {
+    ...event,
+    subscriptionUuid: signer.subscriptionUuid,
+    receivedAt: Date.now(),
+  });
+  return jsonResponse({ status: 'received', eventUuid: event.uuid });
+}
+
+/**
+ * Convert a webhook event payload into a GustoEvent
+ */
+export function normalizeWebhookEvent(payload: Record<string, unknown>): GustoEvent | null {
+  if (typeof payload.uuid !== 'string') {
+    return null;
+  }
+  const resourceType = payload.resource_type as string | undefined;
+  const resourceUuid = payload.resource_uuid as string | undefined;
+  return {
+    uuid: payload.uuid,
+    resourceUuid,
+    resourceType,
+    eventType: payload.event_type as string | undefined,
+    entityType: payload.entity_type as string | undefined,
+    entityUuid: payload.entity_uuid as string | undefined,
+    // Webhook timestamps are epoch seconds
+    timestamp:
+      typeof payload.timestamp === 'number'
+        ? new Date(payload.timestamp * 1000).toISOString()
+        : (payload.timestamp as string | undefined),
+    companyUuid:
+      (payload.company_uuid as string | undefined) ??
+      (resourceType === 'Company' ? resourceUuid : undefined),
+  };
+}
+
+/**
+ * Check a hex HMAC-SHA256 signature of the raw body
+ */
+export async function verifyWebhookSignature(
+  verificationToken: string,
+  body: string,
+  signature: string
+): Promise<boolean> {
+  const bytes = hexDecode(signature.trim());
+  if (!bytes) {
+    return false;
+  }
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(verificationToken),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+  return crypto.subtle.verify('HMAC', key, bytes, new TextEncoder().encode(body));
+}
+
+/**
+ * PUT a received verification token back to Gusto using a system access
+ * token, and record the outcome with the stored token. Only subscriptions
+ * that exist and are still pending are verified.
+ */
+async function completeVerification(
+  kv: KVNamespace,
+  env: Env,
+  token: StoredVerificationToken
+): Promise<void> {
+  try {
+    const system = await requestGustoToken({
+      client_id: env.GUSTO_CLIENT_ID as string,
+      client_secret: env.GUSTO_CLIENT_SECRET as string,
+      grant_type: 'system_access',
+    });
+    const client = createGustoClient({ accessToken: system.accessToken });
+    const subscription = await client.getWebhookSubscription(token.subscriptionUuid);
+    if (subscription.status !== 'pending') {
+      throw new Error(
+        `Subscription is ${subscription.status ?? 'in an unknown state'}, not pending`
+      );
+    }
+    await client.verifyWebhookSubscription(token.subscriptionUuid, token.verificationToken);
+    await putVerificationToken(kv, { ...token, verifiedAt: Date.now() });
+  } catch (error) {
+    await putVerificationToken(kv, {
+      ...token,
+      verificationError: error instanceof Error ? error.message : 'Verification failed',
+    });
+  }
+}
+
+/**
+ * Find the verification token that signed the body: a stored token Gusto has
+ * accepted or GUSTO_WEBHOOK_VERIFICATION_TOKEN. Returns null when none matches.
+ */
+async function findSigner(
+  kv: KVNamespace,
+  env: Env,
+  body: string,
+  signature: string
+): Promise<{ subscriptionUuid?: string } | null> {
+  for (const token of await listVerificationTokens(kv)) {
+    // Tokens from unverified handshakes could have been posted by anyone
+    if (!token.verifiedAt) continue;
+    if (await verifyWebhookSignature(token.verificationToken, body, signature)) {
+      return { subscriptionUuid: token.subscriptionUuid };
+    }
+  }
+  if (
+    env.GUSTO_WEBHOOK_VERIFICATION_TOKEN &&
+    (await verifyWebhookSignature(env.GUSTO_WEBHOOK_VERIFICATION_TOKEN, body, signature))
+  ) {
+    return {};
+  }
+  return null;
+}
+
+function hexDecode(value: string): Uint8Array | null {
+  if (value.length === 0 || value.length % 2 !== 0 || !/^[0-9a-f]+$/i.test(value)) {
+    return null;
+  }
+  return Uint8Array.from(value.match(/../g) as string[], (byte) => parseInt(byte, 16));
+}
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
@@ -0,0 +1,117 @@
+/**
+ * Webhook Store
+ *
+ * Persists webhook verification tokens and received events in the
+ * WEBHOOK_KV namespace. Events are keyed by their Gusto UUID, which also
+ * lets the receiver recognize replayed deliveries.
+ */
+
+import type { GustoEvent } from '../types/entities.js';
+
+/**
+ * Verification token Gusto sent for a subscription
+ */
+export interface StoredVerificationToken {
+  subscriptionUuid: string;
+  verificationToken: string;
+  receivedAt: number;
+  /** Set once Gusto accepted the token and marked the subscription verified */
+  verifiedAt?: number;
+  /** Why automatic verification failed, if it did */
+  verificationError?: string;
+}
+
+/**
+ * Event received on the webhook route
+ */
+export interface ReceivedWebhookEvent extends GustoEvent {
+  /** Subscription whose verification token signed the delivery */
+  subscriptionUuid?: string;
+  receivedAt: number;
+}
+
+const TOKEN_PREFIX = 'webhook_token:';
+const EVENT_PREFIX = 'webhook_event:';
+const ATTEMPT_PREFIX = 'webhook_verify_attempt:';
+
+/** Received events are kept for 30 days, which is also how old a delivery may be */
+export const EVENT_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** Automatic verification runs at most once a minute per subscription (KV's minimum TTL) */
+export const ATTEMPT_TTL_SECONDS = 60;
+
+/**
+ * Store the verification token Gusto sent for a subscription
+ */
+export async function putVerificationToken(
+  kv: KVNamespace,
+  token: StoredVerificationToken
+): Promise<void> {
+  await kv.put(`${TOKEN_PREFIX}${token.subscriptionUuid}`, JSON.stringify(token));
+}
+
+/**
+ * Load the verification token stored for a subscription
+ */
+export async function getVerificationToken(
+  kv: KVNamespace,
+  subscriptionUuid: string
+): Promise<StoredVerificationToken | null> {
+  return kv.get<StoredVerificationToken>(`${TOKEN_PREFIX}${subscriptionUuid}`, 'json');
+}
+
+/**
+ * Load every stored verification token
+ */
+export async function listVerificationTokens(kv: KVNamespace): Promise<StoredVerificationToken[]> {
+  const tokens: StoredVerificationToken[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix: TOKEN_PREFIX, cursor });
+    for (const key of page.keys) {
+      const token = await kv.get<StoredVerificationToken>(key.name, 'json');
+      if (token) tokens.push(token);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return tokens;
+}
+
+/**
+ * Claim the automatic verification slot for a subscription. Resolves false
+ * when verification was already attempted within ATTEMPT_TTL_SECONDS.
+ */
+export async function claimVerificationAttempt(
+  kv: KVNamespace,
+  subscriptionUuid: string
+): Promise<boolean> {
+  const key = `${ATTEMPT_PREFIX}${subscriptionUuid}`;
+  if (await kv.get(key)) {
+    return false;
+  }
+  await kv.put(key, String(Date.now()), { expirationTtl: ATTEMPT_TTL_SECONDS });
+  return true;
+}
+
+/**
+ * Load a received event by its UUID
+ */
+export async function getReceivedEvent(
+  kv: KVNamespace,
+  eventUuid: string
+): Promise<ReceivedWebhookEvent | null> {
+  return kv.get<ReceivedWebhookEvent>(`${EVENT_PREFIX}${eventUuid}`, 'json');
+}
+
+/**
+ * Store a received event
+ */
+export async function putReceivedEvent(
+  kv: KVNamespace,
+  event: ReceivedWebhookEvent
+): Promise<void> {
+  await kv.put(`${EVENT_PREFIX}${event.uuid}`, JSON.stringify(event), {
+    expirationTtl: EVENT_TTL_SECONDS,
+    metadata: { companyUuid: event.companyUuid, eventType: event.eventType },
+  });
+}